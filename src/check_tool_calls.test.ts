@@ -0,0 +1,199 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { checkToolCalls } from './check_tool_calls';
+
+describe('checkToolCalls', () => {
+  const tools = {
+    getWeather: {
+      inputSchema: z.object({ city: z.string(), days: z.number().optional() }),
+      execute: async () => ({})
+    },
+    sendEmail: {
+      inputSchema: z.object({
+        to: z.string(),
+        tags: z.array(z.string()).optional(),
+      }),
+      execute: async () => ({})
+    },
+    ping: {
+      execute: async () => 'pong'
+    }
+  };
+
+  describe('tool names', () => {
+    it('should accept known tools', () => {
+      const code = `
+        await tools.getWeather({ city: 'Paris' });
+        await tools.ping.execute();
+        return tools['sendEmail'];
+      `;
+      expect(checkToolCalls(code, tools)).toEqual([]);
+    });
+
+    it('should suggest the closest tool for a typo', () => {
+      const errors = checkToolCalls(`await tools.getWheather({ city: 'Paris' });`, tools);
+      expect(errors).toEqual([
+        'Unknown tool: tools.getWheather. Did you mean tools.getWeather? (line 1, column 13)'
+      ]);
+    });
+
+    it('should ignore case when suggesting', () => {
+      const errors = checkToolCalls(`await tools.sendemail({ to: 'a' });`, tools);
+      expect(errors[0]).toContain('Did you mean tools.sendEmail?');
+    });
+
+    it('should not suggest unrelated tools', () => {
+      const errors = checkToolCalls(`await tools.deleteEverything();`, tools);
+      expect(errors).toEqual(['Unknown tool: tools.deleteEverything (line 1, column 13)']);
+    });
+
+    it('should check string literal member names', () => {
+      const errors = checkToolCalls(`await tools['pnig']();`, tools);
+      expect(errors[0]).toContain('Unknown tool: tools.pnig. Did you mean tools.ping?');
+    });
+
+    it('should report each unknown reference', () => {
+      const errors = checkToolCalls(`await tools.pin();\nawait tools.pnig();`, tools);
+      expect(errors).toHaveLength(2);
+      expect(errors[1]).toContain('(line 2, column 13)');
+    });
+
+    it('should allow the built-in $results member', () => {
+      expect(checkToolCalls(`return tools.$results.get('result_1');`, tools)).toEqual([]);
+    });
+
+    it('should skip dynamic member names', () => {
+      expect(checkToolCalls(`const name = 'nope';\nawait tools[name]();`, tools)).toEqual([]);
+    });
+
+    it('should skip local variables named tools', () => {
+      const code = `
+        const tools = { local: () => 1 };
+        return tools.local();
+      `;
+      expect(checkToolCalls(code, tools)).toEqual([]);
+    });
+
+    it('should leave syntax errors to validation', () => {
+      expect(checkToolCalls(`await tools.nope(`, tools)).toEqual([]);
+    });
+  });
+
+  describe('namespaces', () => {
+    const namespaced = {
+      'github.createIssue': {
+        inputSchema: z.object({ title: z.string() }),
+        execute: async () => ({})
+      },
+      'github.repos.list': { execute: async () => [] },
+    };
+
+    it('should accept tools in namespaces', () => {
+      const code = `
+        await tools.github.createIssue({ title: 'Bug' });
+        await tools.github['repos'].list.execute();
+        const github = tools.github;
+        return github.anything;
+      `;
+      expect(checkToolCalls(code, namespaced)).toEqual([]);
+    });
+
+    it('should report unknown tools in a namespace', () => {
+      const errors = checkToolCalls(`await tools.github.crateIssue({ title: 'Bug' });`, namespaced);
+      expect(errors).toEqual([
+        'Unknown tool: tools.github.crateIssue. Did you mean tools.github.createIssue? (line 1, column 20)'
+      ]);
+    });
+
+    it('should suggest namespaces', () => {
+      const errors = checkToolCalls(`await tools.githb.createIssue();`, namespaced);
+      expect(errors[0]).toContain('Unknown tool: tools.githb. Did you mean tools.github?');
+    });
+
+    it('should check literal arguments of tools in namespaces', () => {
+      const errors = checkToolCalls(`await tools.github.createIssue({ title: 1 });`, namespaced);
+      expect(errors[0]).toContain('Invalid input for tool "github.createIssue": title: ');
+    });
+  });
+
+  describe('literal arguments', () => {
+    it('should report values of the wrong type', () => {
+      const errors = checkToolCalls(`await tools.getWeather({ city: 42 });`, tools);
+      expect(errors).toHaveLength(1);
+      expect(errors[0]).toMatch(/^Invalid input for tool "getWeather": city: .+ \(line 1, column 32\)$/);
+    });
+
+    it('should report missing required keys at the argument', () => {
+      const errors = checkToolCalls(`await tools.getWeather({ days: 3 });`, tools);
+      expect(errors).toHaveLength(1);
+      expect(errors[0]).toMatch(/^Invalid input for tool "getWeather": city: .+ \(line 1, column 24\)$/);
+    });
+
+    it('should check arguments of execute calls', () => {
+      const errors = checkToolCalls(`await tools.getWeather.execute({ city: 'Paris', days: '3' });`, tools);
+      expect(errors[0]).toContain('Invalid input for tool "getWeather": days: ');
+    });
+
+    it('should check nested arrays', () => {
+      const errors = checkToolCalls(`await tools.sendEmail({ to: 'a', tags: ['x', 1] });`, tools);
+      expect(errors).toHaveLength(1);
+      expect(errors[0]).toContain('tags.1: ');
+      expect(errors[0]).toContain('(line 1, column 46)');
+    });
+
+    it('should accept negative numbers and plain template literals', () => {
+      const code = 'await tools.getWeather({ city: `Paris`, days: -1 });';
+      expect(checkToolCalls(code, tools)).toEqual([]);
+    });
+
+    it('should skip values only known at runtime', () => {
+      const code = `
+        const city = 'Paris';
+        await tools.getWeather({ city, days: Number('3') });
+        await tools.getWeather({ city: \`\${city}!\` });
+      `;
+      expect(checkToolCalls(code, tools)).toEqual([]);
+    });
+
+    it('should skip missing keys when a spread may provide them', () => {
+      const code = `
+        const base = { city: 'Paris' };
+        await tools.getWeather({ ...base, days: 2 });
+      `;
+      expect(checkToolCalls(code, tools)).toEqual([]);
+    });
+
+    it('should still check known values next to a spread', () => {
+      const code = `
+        const base = { city: 'Paris' };
+        await tools.getWeather({ ...base, days: 'two' });
+      `;
+      const errors = checkToolCalls(code, tools);
+      expect(errors).toHaveLength(1);
+      expect(errors[0]).toContain('days: ');
+    });
+
+    it('should skip arguments that are not literals', () => {
+      const code = `
+        const input = { city: 42 };
+        await tools.getWeather(input);
+      `;
+      expect(checkToolCalls(code, tools)).toEqual([]);
+    });
+
+    it('should skip tools without a schema', () => {
+      expect(checkToolCalls(`await tools.ping({ anything: true });`, tools)).toEqual([]);
+    });
+
+    it('should skip schemas whose refinements fail on unknown values', () => {
+      const refinedTools = {
+        search: {
+          inputSchema: z.object({ query: z.any() }).refine((input) => input.query.length > 0),
+          execute: async () => []
+        }
+      };
+      const code = `const query = 'x';\nawait tools.search({ query });`;
+      expect(checkToolCalls(code, refinedTools)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,356 @@
+import * as acorn from "acorn";
+import { findFreeVariables } from "./scope_analysis";
+import {
+  getInputSchema,
+  NormalizedSchema,
+  normalizeSchema,
+} from "./tool_schema";
+import { NAMESPACE_SEPARATOR, RESULTS_MEMBER } from "./tool_registry";
+import { Tool } from "./types";
+
+// Members of the sandbox tools object that aren't tools
+const BUILT_IN_MEMBERS = new Set([RESULTS_MEMBER]);
+
+// Stands in for argument values that are only known at runtime
+const UNKNOWN = Symbol("unknown");
+
+type StaticValue = {
+  value: unknown;
+  /** Paths of values that are only known at runtime, e.g. ["user", "id"] */
+  unknownPaths: (string | number)[][];
+  /** Whether every key of every object literal is known, so missing keys are real */
+  complete: boolean;
+};
+
+/**
+ * Finds the tools referenced as `tools.name` or `tools.namespace.name` and
+ * reports unknown names, with a suggestion, and literal arguments that don't
+ * match the tool's inputSchema.
+ * Catches mistakes before the code runs, instead of after earlier calls
+ * already had their side effects.
+ */
+export function checkToolCalls(code: string, tools: Record<string, Tool>) {
+  const errors: string[] = [];
+
+  let ast: any;
+  try {
+    ast = acorn.parse(`(async () => {\n${code}\n})()`, {
+      ecmaVersion: "latest",
+      sourceType: "script",
+      locations: true,
+    });
+  } catch {
+    // Syntax errors are reported by validateCode
+    return errors;
+  }
+
+  const report = (node: any, message: string) => {
+    const { line, column } = node.loc.start;
+    errors.push(`${message} (line ${line - 1}, column ${column + 1})`);
+  };
+
+  // Only references to the sandbox global count, not locals that shadow it
+  const toolsReferences = new Set(
+    findFreeVariables(ast).filter((node) => node.name === "tools")
+  );
+
+  const namespaces = new Set(
+    Object.keys(tools).flatMap((name) => {
+      const segments = name.split(NAMESPACE_SEPARATOR);
+      return segments
+        .slice(1)
+        .map((_, index) =>
+          segments.slice(0, index + 1).join(NAMESPACE_SEPARATOR)
+        );
+    })
+  );
+
+  walk(ast, [], (node, ancestors) => {
+    if (node.type !== "MemberExpression" || !toolsReferences.has(node.object)) {
+      return;
+    }
+
+    let name = getPropertyName(node);
+    if (name === undefined || BUILT_IN_MEMBERS.has(name)) return;
+
+    // Follow tools.github.issues.create through its namespaces to the tool
+    let member = node;
+    let depth = ancestors.length;
+    while (!Object.prototype.hasOwnProperty.call(tools, name)) {
+      if (!namespaces.has(name)) {
+        const suggestion = suggestName(name, [
+          ...Object.keys(tools),
+          ...namespaces,
+        ]);
+        report(
+          member.property,
+          suggestion
+            ? `Unknown tool: tools.${name}. Did you mean tools.${suggestion}?`
+            : `Unknown tool: tools.${name}`
+        );
+        return;
+      }
+
+      // A namespace passed around as a value, or with a computed member, is checked at runtime
+      const parent = ancestors[depth - 1];
+      if (parent?.type !== "MemberExpression" || parent.object !== member) {
+        return;
+      }
+      const segment = getPropertyName(parent);
+      if (segment === undefined) return;
+
+      name = name + NAMESPACE_SEPARATOR + segment;
+      member = parent;
+      depth--;
+    }
+
+    const call = findCall(member, ancestors.slice(0, depth));
+    const schema = getInputSchema(tools[name]);
+    if (call?.arguments.length && schema) {
+      checkArgument(name, normalizeSchema(schema), call.arguments[0], report);
+    }
+  });
+
+  return errors;
+}
+
+function walk(
+  node: any,
+  ancestors: any[],
+  visitor: (node: any, ancestors: any[]) => void
+) {
+  if (!node || typeof node !== "object") return;
+
+  if (Array.isArray(node)) {
+    node.forEach((child) => walk(child, ancestors, visitor));
+    return;
+  }
+
+  visitor(node, ancestors);
+
+  ancestors.push(node);
+  for (const key in node) {
+    if (key === "loc") continue;
+    walk(node[key], ancestors, visitor);
+  }
+  ancestors.pop();
+}
+
+function getPropertyName(member: any): string | undefined {
+  if (!member.computed) return member.property.name;
+  if (member.property.type === "Literal") return String(member.property.value);
+  return undefined;
+}
+
+// The call of `tools.name(...)` or `tools.name.execute(...)`
+function findCall(member: any, ancestors: any[]) {
+  let callee = member;
+  let parent = ancestors[ancestors.length - 1];
+
+  if (
+    parent?.type === "MemberExpression" &&
+    parent.object === member &&
+    getPropertyName(parent) === "execute"
+  ) {
+    callee = parent;
+    parent = ancestors[ancestors.length - 2];
+  }
+
+  return parent?.type === "CallExpression" && parent.callee === callee
+    ? parent
+    : undefined;
+}
+
+function checkArgument(
+  name: string,
+  schema: NormalizedSchema,
+  argument: any,
+  report: (node: any, message: string) => void
+) {
+  const input = toStaticValue(argument, []);
+  if (input.value === UNKNOWN) return;
+
+  let result: ReturnType<NormalizedSchema["validate"]>;
+  try {
+    result = schema.validate(input.value);
+  } catch {
+    // Refinements may not expect the placeholders of unknown values
+    return;
+  }
+
+  // Async validators are left to the call itself
+  if (result instanceof Promise) {
+    result.catch(() => {});
+    return;
+  }
+  if (result.success) return;
+
+  for (const issue of result.issues) {
+    const path = issue.path;
+    // Issues about an unknown value, or about an object or array containing one, may be wrong
+    const isUnknown = input.unknownPaths.some(
+      (unknownPath) =>
+        isPrefix(unknownPath, path) || isPrefix(path, unknownPath)
+    );
+    if (isUnknown) continue;
+
+    // A missing key may still be set by a spread or computed key
+    const node = findNode(argument, path);
+    if (!node && !input.complete) continue;
+
+    report(
+      node ?? argument,
+      `Invalid input for tool "${name}": ${
+        path.length ? path.join(".") : "(root)"
+      }: ${issue.message}`
+    );
+  }
+}
+
+// Evaluates literals, object literals and array literals, and marks everything else as unknown
+function toStaticValue(node: any, path: (string | number)[]): StaticValue {
+  const unknown = { value: UNKNOWN, unknownPaths: [path], complete: true };
+
+  switch (node.type) {
+    case "Literal":
+      return node.regex
+        ? unknown
+        : { value: node.value, unknownPaths: [], complete: true };
+
+    case "TemplateLiteral":
+      return node.expressions.length
+        ? unknown
+        : {
+            value: node.quasis[0].value.cooked,
+            unknownPaths: [],
+            complete: true,
+          };
+
+    case "UnaryExpression":
+      if (node.operator === "-" && node.argument.type === "Literal") {
+        return {
+          value: -node.argument.value,
+          unknownPaths: [],
+          complete: true,
+        };
+      }
+      return unknown;
+
+    case "ArrayExpression": {
+      if (
+        node.elements.some((element: any) => element?.type === "SpreadElement")
+      ) {
+        return unknown;
+      }
+      return combine(
+        node.elements.map((element: any, index: number) =>
+          element
+            ? toStaticValue(element, [...path, index])
+            : { value: undefined, unknownPaths: [], complete: true }
+        ),
+        (values) => values
+      );
+    }
+
+    case "ObjectExpression": {
+      const entries: [string, StaticValue][] = [];
+      let complete = true;
+
+      for (const property of node.properties) {
+        const key =
+          property.type === "Property" && !property.computed
+            ? (property.key.name ?? String(property.key.value))
+            : property.type === "Property" && property.key.type === "Literal"
+              ? String(property.key.value)
+              : undefined;
+
+        if (key === undefined || property.kind !== "init") {
+          complete = false;
+          continue;
+        }
+        entries.push([key, toStaticValue(property.value, [...path, key])]);
+      }
+
+      const value = combine(
+        entries.map(([, entry]) => entry),
+        (values) =>
+          Object.fromEntries(
+            entries.map(([key], index) => [key, values[index]])
+          )
+      );
+      return { ...value, complete: value.complete && complete };
+    }
+
+    default:
+      return unknown;
+  }
+}
+
+function isPrefix(prefix: (string | number)[], path: (string | number)[]) {
+  return prefix.every((segment, index) => path[index] === segment);
+}
+
+function combine(
+  parts: StaticValue[],
+  build: (values: unknown[]) => unknown
+): StaticValue {
+  return {
+    value: build(parts.map((part) => part.value)),
+    unknownPaths: parts.flatMap((part) => part.unknownPaths),
+    complete: parts.every((part) => part.complete),
+  };
+}
+
+// The AST node of the value at a path in an object or array literal
+function findNode(node: any, path: (string | number)[]): any {
+  let current = node;
+  for (const segment of path) {
+    if (current?.type === "ObjectExpression") {
+      current = current.properties.find(
+        (property: any) =>
+          property.type === "Property" &&
+          (property.key.name ?? String(property.key.value)) === segment
+      )?.value;
+    } else if (current?.type === "ArrayExpression") {
+      current = current.elements[segment as number];
+    } else {
+      return undefined;
+    }
+  }
+  return current;
+}
+
+// The closest tool name by edit distance, if it's close enough to be a typo
+function suggestName(name: string, candidates: string[]) {
+  const maxDistance = Math.max(2, Math.floor(name.length / 3));
+  let best: string | undefined;
+  let bestDistance = Infinity;
+
+  for (const candidate of candidates) {
+    const distance = editDistance(name.toLowerCase(), candidate.toLowerCase());
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+
+  return bestDistance <= maxDistance ? best : undefined;
+}
+
+function editDistance(a: string, b: string) {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
@@ -0,0 +1,77 @@
+// Replaces what the structured clone algorithm can't copy, e.g. functions, with
+// a description. Everything else, like Maps, BigInts and cycles, is kept.
+// Cloning drops custom names, properties and causes of errors, so they become
+// plain objects, unless keepErrors is set for a receiver that expects errors.
+// The sandbox worker uses it for returned values and the host for tool results,
+// so it's plain JavaScript like the worker.
+function toCloneable(value, options = {}, seen = new Map()) {
+  if (typeof value === "function") {
+    return `[Function: ${value.name || "anonymous"}]`;
+  }
+  if (typeof value === "symbol") {
+    return value.toString();
+  }
+  if (value === null || typeof value !== "object") {
+    return value;
+  }
+  if (seen.has(value)) {
+    return seen.get(value);
+  }
+
+  const tag = Object.prototype.toString.call(value).slice(8, -1);
+  let copy;
+
+  switch (tag) {
+    case "Date":
+    case "RegExp":
+    case "ArrayBuffer":
+      return value;
+    case "Error":
+      if (options.keepErrors) return value;
+      copy = { name: String(value.name), message: String(value.message) };
+      seen.set(value, copy);
+      for (const key of Object.keys(value)) {
+        copy[key] = toCloneable(value[key], options, seen);
+      }
+      if (value.cause !== undefined) {
+        copy.cause = toCloneable(value.cause, options, seen);
+      }
+      return copy;
+    case "Array":
+      copy = [];
+      seen.set(value, copy);
+      for (const item of value) {
+        copy.push(toCloneable(item, options, seen));
+      }
+      return copy;
+    case "Map":
+      copy = new Map();
+      seen.set(value, copy);
+      for (const [key, item] of value) {
+        copy.set(
+          toCloneable(key, options, seen),
+          toCloneable(item, options, seen)
+        );
+      }
+      return copy;
+    case "Set":
+      copy = new Set();
+      seen.set(value, copy);
+      for (const item of value) {
+        copy.add(toCloneable(item, options, seen));
+      }
+      return copy;
+    case "Object":
+      copy = {};
+      seen.set(value, copy);
+      for (const key of Object.keys(value)) {
+        copy[key] = toCloneable(value[key], options, seen);
+      }
+      return copy;
+    default:
+      // Typed arrays can be cloned, other objects like Promises or WeakMaps can't
+      return ArrayBuffer.isView(value) ? value : `[${tag}]`;
+  }
+}
+
+module.exports = { toCloneable };
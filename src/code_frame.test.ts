@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { formatCodeFrame, mapStack, parseLocation } from './code_frame';
+import { instrumentCode } from './instrument_code';
+
+describe('formatCodeFrame', () => {
+  const code = `const user = await tools.getUser({ id: 1 });\nconst name = user.profile.name;\nreturn name;`;
+
+  it('should mark the line and column with the lines around it', () => {
+    expect(formatCodeFrame(code, { line: 2, column: 19 })).toBe(
+      '  1 | const user = await tools.getUser({ id: 1 });\n' +
+      '> 2 | const name = user.profile.name;\n' +
+      '    |                   ^\n' +
+      '  3 | return name;'
+    );
+  });
+
+  it('should pad the gutter to the widest line number', () => {
+    const lines = Array.from({ length: 10 }, (_, index) => `step(${index + 1});`).join('\n');
+
+    expect(formatCodeFrame(lines, { line: 10, column: 1 })).toBe(
+      '   9 | step(9);\n' +
+      '> 10 | step(10);\n' +
+      '     | ^'
+    );
+  });
+
+  it('should leave out blank lines around the location', () => {
+    expect(formatCodeFrame(`\n  throw new Error('x');\n  `, { line: 2, column: 3 })).toBe(
+      "> 2 |   throw new Error('x');\n" +
+      '    |   ^'
+    );
+  });
+
+  it('should keep tabs so the caret lines up', () => {
+    expect(formatCodeFrame(`\tfoo();`, { line: 1, column: 2 })).toBe(
+      '> 1 | \tfoo();\n' +
+      '    | \t^'
+    );
+  });
+
+  it('should return undefined for lines outside the code', () => {
+    expect(formatCodeFrame(code, { line: 7, column: 1 })).toBeUndefined();
+  });
+});
+
+describe('parseLocation', () => {
+  it('should read the position validation errors end with', () => {
+    expect(parseLocation('Unknown global: fetch (line 2, column 3)')).toEqual({ line: 2, column: 3 });
+  });
+
+  it('should return undefined for messages without a position', () => {
+    expect(parseLocation('Code validation failed')).toBeUndefined();
+  });
+});
+
+describe('mapStack', () => {
+  it('should map frames to the original code and drop sandbox frames', () => {
+    const { inserted } = instrumentCode(`const f = () => null.x;\nreturn f();`);
+    const stack = [
+      "TypeError: Cannot read properties of null (reading 'x')",
+      '    at f (execute_tools.js:2:71)',
+      '    at execute_tools.js:3:8',
+      '    at sandboxMain ([worker eval]:103:3)',
+      '    at node:internal/process/execution:118:14',
+    ].join('\n');
+
+    expect(mapStack(stack, inserted)).toEqual({
+      stack: [
+        "TypeError: Cannot read properties of null (reading 'x')",
+        '    at f (execute_tools.js:1:22)',
+        '    at execute_tools.js:2:8',
+      ].join('\n'),
+      location: { line: 1, column: 22 },
+    });
+  });
+
+  it('should leave stacks without frames in the code unchanged', () => {
+    const stack = 'Error: Limit\n    at checkLimits (/app/dist/execute_tools.js:10:5)';
+
+    expect(mapStack(stack, [])).toEqual({ stack });
+  });
+});
@@ -0,0 +1,105 @@
+import { InsertedText, originalColumn } from "./instrument_code";
+import { SourceLocation } from "./types";
+
+// The filename the sandbox compiles the code with, see sandbox_worker.js
+const SCRIPT_FILENAME = "execute_tools.js";
+
+// Lines shown around the offending line
+const CONTEXT_LINES = 1;
+const MAX_LINE_LENGTH = 120;
+
+// Only the bare filename, a path like dist/execute_tools.js is the library itself
+const STACK_POSITION = new RegExp(
+  `(?<=[\\s(])${SCRIPT_FILENAME.replace(".", "\\.")}:(\\d+):(\\d+)`
+);
+
+/**
+ * Rewrites the stack of an error thrown by the sandboxed code so it only has
+ * frames in the code, with the positions the model wrote. The location of the
+ * innermost frame is where the error happened.
+ */
+export function mapStack(
+  stack: string,
+  inserted: InsertedText[]
+): { stack: string; location?: SourceLocation } {
+  let location: SourceLocation | undefined;
+
+  const lines = stack.split("\n");
+  const frames = lines.filter((line) => /^\s+at /.test(line));
+  if (!frames.length) {
+    return { stack };
+  }
+  const header = lines.slice(0, lines.indexOf(frames[0]));
+
+  const codeFrames = frames
+    .filter((frame) => STACK_POSITION.test(frame))
+    .map((frame) =>
+      frame.replace(STACK_POSITION, (_, scriptLine, scriptColumn) => {
+        // The sandbox wraps the code in a function that starts one line earlier
+        const line = Number(scriptLine) - 1;
+        const column =
+          originalColumn(inserted, line, Number(scriptColumn) - 1) + 1;
+        location ??= { line, column };
+        return `${SCRIPT_FILENAME}:${line}:${column}`;
+      })
+    );
+
+  // Errors from the host, like tool call limits, have no frames in the code
+  if (!location) {
+    return { stack };
+  }
+  return { stack: [...header, ...codeFrames].join("\n"), location };
+}
+
+// Finds the position validation errors end with, e.g. "(line 3, column 7)"
+export function parseLocation(message: string): SourceLocation | undefined {
+  const match = /\(line (\d+), column (\d+)\)$/.exec(message);
+  return match
+    ? { line: Number(match[1]), column: Number(match[2]) }
+    : undefined;
+}
+
+/**
+ * Shows the line at a location with the lines around it, and a caret under
+ * the column:
+ *
+ *   2 | const user = await tools.getUser({ id });
+ * > 3 | return user.profile.name;
+ *     |                    ^
+ */
+export function formatCodeFrame(code: string, location: SourceLocation) {
+  const lines = code.split("\n");
+  if (location.line < 1 || location.line > lines.length) {
+    return undefined;
+  }
+
+  const first = Math.max(1, location.line - CONTEXT_LINES);
+  const last = Math.min(lines.length, location.line + CONTEXT_LINES);
+  const width = String(last).length;
+
+  const frame: string[] = [];
+  for (let number = first; number <= last; number++) {
+    const text = truncate(lines[number - 1].replace(/\s+$/, ""));
+    if (!text && number !== location.line) continue;
+
+    const gutter = String(number).padStart(width);
+    const marker = number === location.line ? ">" : " ";
+    frame.push(`${marker} ${gutter} |${text ? ` ${text}` : ""}`);
+
+    if (number === location.line) {
+      // Tabs are kept, so the caret lines up under them
+      const padding = lines[number - 1]
+        .slice(0, Math.min(location.column - 1, MAX_LINE_LENGTH))
+        .replace(/[^\t]/g, " ");
+      frame.push(`  ${" ".repeat(width)} | ${padding}^`);
+    }
+  }
+
+  return frame.join("\n");
+}
+
+function truncate(line: string) {
+  return line.length > MAX_LINE_LENGTH
+    ? `${line.slice(0, MAX_LINE_LENGTH)}...`
+    : line;
+}
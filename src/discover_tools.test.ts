@@ -0,0 +1,256 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { createToolIndex, discoverToolsInMemory, listNamespaces } from './discover_tools';
+
+describe('discoverToolsInMemory', () => {
+  const tools = {
+    getCurrentWeather: {
+      description: 'Get the current weather in a location',
+      inputSchema: z.object({
+        location: z.string().describe('The city name'),
+      }),
+      execute: async () => ({}),
+    },
+    sendEmail: {
+      description: 'Send an email',
+      inputSchema: z.object({
+        to: z.string().describe('Email address of the recipient'),
+        subject: z.string(),
+        body: z.string(),
+      }),
+      execute: async () => ({}),
+    },
+    searchProducts: {
+      description: 'Search the product catalog',
+      inputSchema: z.object({
+        query: z.string(),
+        maxPrice: z.number().optional().describe('Only include cheaper products'),
+      }),
+      execute: async () => [],
+    },
+  };
+  const index = createToolIndex(tools);
+
+  it('should match any of the query keywords', async () => {
+    const result = await discoverToolsInMemory('send email weather', index);
+
+    expect(result.tools.map((tool) => tool.name).sort()).toEqual([
+      'getCurrentWeather',
+      'sendEmail',
+    ]);
+  });
+
+  it('should rank the best match first', async () => {
+    const result = await discoverToolsInMemory('email', index);
+
+    expect(result.tools[0].name).toBe('sendEmail');
+    expect(result.tools[0].score).toBeGreaterThan(0);
+  });
+
+  it('should search schema property names and descriptions', async () => {
+    const result = await discoverToolsInMemory('price', index);
+
+    expect(result.tools.map((tool) => tool.name)).toEqual(['searchProducts']);
+  });
+
+  it('should match camelCase tool names and plurals', async () => {
+    const result = await discoverToolsInMemory('current weathers', index);
+
+    expect(result.tools[0].name).toBe('getCurrentWeather');
+  });
+
+  it('should treat regex characters as plain text', async () => {
+    const result = await discoverToolsInMemory('email (', index);
+
+    expect(result.tools[0].name).toBe('sendEmail');
+  });
+
+  it('should limit the number of results', async () => {
+    const result = await discoverToolsInMemory('', index, { limit: 2 });
+
+    expect(result.tools).toHaveLength(2);
+    expect(result.total).toBe(3);
+  });
+
+  it('should return declarations instead of schemas when asked to', async () => {
+    const result = await discoverToolsInMemory('email', index, { declarations: true });
+
+    expect(result.tools[0]).not.toHaveProperty('schema');
+    expect(result.tools[0]).toHaveProperty('declaration');
+  });
+});
+
+describe('semantic discovery', () => {
+  // Deterministic embedder that maps words to a few concept dimensions
+  const CONCEPTS: Record<string, number> = {
+    notify: 0,
+    email: 0,
+    message: 0,
+    send: 0,
+    weather: 1,
+    temperature: 1,
+    forecast: 1,
+    product: 2,
+    catalog: 2,
+    buy: 2,
+  };
+  const embed = async (texts: string[]) =>
+    texts.map((text) => {
+      const vector = [0, 0, 0];
+      for (const word of text.toLowerCase().split(/[^a-z]+/)) {
+        const concept = CONCEPTS[word.replace(/s$/, '')];
+        if (concept !== undefined) vector[concept]++;
+      }
+      return vector;
+    });
+
+  const tools = {
+    sendEmail: {
+      description: 'Send an email message',
+      inputSchema: z.object({ to: z.string(), body: z.string() }),
+      execute: async () => ({}),
+    },
+    getForecast: {
+      description: 'Weather forecast for a city',
+      inputSchema: z.object({ city: z.string() }),
+      execute: async () => ({}),
+    },
+  };
+
+  it('should find tools by intent rather than name', async () => {
+    const index = createToolIndex(tools);
+
+    const result = await discoverToolsInMemory('notify the customer', index, {
+      semantic: { embed },
+    });
+
+    expect(result.tools.map((tool) => tool.name)).toEqual(['sendEmail']);
+  });
+
+  it('should pass the abort signal to the query embedding and stop when aborted', async () => {
+    const controller = new AbortController();
+    const signals: unknown[] = [];
+    const abortingEmbed = async (texts: string[], options?: { abortSignal?: AbortSignal }) => {
+      signals.push(options?.abortSignal);
+      controller.abort();
+      return embed(texts);
+    };
+
+    await expect(
+      discoverToolsInMemory('mail', createToolIndex(tools), {
+        semantic: { embed: abortingEmbed },
+        abortSignal: controller.signal,
+      })
+    ).rejects.toThrow();
+    expect(signals).toContain(controller.signal);
+  });
+
+  it('should embed the tools only once', async () => {
+    const index = createToolIndex(tools);
+    const embedded: string[][] = [];
+    const recordingEmbed = async (texts: string[]) => {
+      embedded.push(texts);
+      return embed(texts);
+    };
+
+    await discoverToolsInMemory('notify', index, { semantic: { embed: recordingEmbed } });
+    await discoverToolsInMemory('temperature', index, { semantic: { embed: recordingEmbed } });
+
+    expect(embedded).toEqual([
+      [expect.stringContaining('sendEmail'), expect.stringContaining('getForecast')],
+      ['notify'],
+      ['temperature'],
+    ]);
+  });
+
+  it('should combine keyword matches with vector similarity', async () => {
+    const index = createToolIndex(tools);
+
+    const result = await discoverToolsInMemory('city', index, {
+      semantic: { embed, lexicalWeight: 0.5 },
+    });
+
+    expect(result.tools.map((tool) => tool.name)).toEqual(['getForecast']);
+    expect(result.tools[0].score).toBe(0.5);
+  });
+
+  it('should retry embedding the tools after a failure', async () => {
+    const index = createToolIndex(tools);
+    let attempts = 0;
+    const flakyEmbed = async (texts: string[]) => {
+      if (texts.length > 1 && attempts++ === 0) {
+        throw new Error('Rate limited');
+      }
+      return embed(texts);
+    };
+
+    await expect(
+      discoverToolsInMemory('notify', index, { semantic: { embed: flakyEmbed } })
+    ).rejects.toThrow('Rate limited');
+
+    const result = await discoverToolsInMemory('notify', index, {
+      semantic: { embed: flakyEmbed },
+    });
+
+    expect(result.tools[0].name).toBe('sendEmail');
+  });
+});
+
+describe('namespaces', () => {
+  const registry = {
+    github: {
+      createIssue: { description: 'Create an issue in a repository', execute: async () => ({}) },
+      repos: {
+        list: { description: 'List repositories', execute: async () => [] },
+      },
+    },
+    jira: {
+      createIssue: { description: 'Create a Jira issue', execute: async () => ({}) },
+    },
+    ping: { description: 'Check the connection', execute: async () => 'pong' },
+  };
+  const index = createToolIndex(registry);
+
+  it('should index tools by their full name', async () => {
+    const result = await discoverToolsInMemory('create issue', index);
+
+    expect(result.tools.map((tool) => tool.name).sort()).toEqual(['github.createIssue', 'jira.createIssue']);
+  });
+
+  it('should list the top-level namespaces with their tool counts', async () => {
+    const result = await discoverToolsInMemory('', index);
+
+    expect(result.namespaces).toEqual([
+      { name: 'github', tools: 2 },
+      { name: 'jira', tools: 1 },
+    ]);
+  });
+
+  it('should filter by namespace and list the namespaces inside it', async () => {
+    const result = await discoverToolsInMemory('', index, { namespace: 'github' });
+
+    expect(result.tools.map((tool) => tool.name)).toEqual(['github.createIssue', 'github.repos.list']);
+    expect(result.total).toBe(2);
+    expect(listNamespaces(index, 'github')).toEqual([{ name: 'github.repos', tools: 1 }]);
+  });
+
+  it('should declare tools inside their namespace', async () => {
+    const result = await discoverToolsInMemory('repositories', index, {
+      namespace: 'github.repos',
+      declarations: true,
+    });
+
+    expect((result.tools[0] as any).declaration).toBe(`github: {
+  repos: {
+    /** List repositories */
+    list(input: unknown): Promise<unknown>;
+  };
+};`);
+  });
+
+  it('should not list namespaces for flat registries', async () => {
+    const result = await discoverToolsInMemory('', createToolIndex({ ping: registry.ping }));
+
+    expect(result).not.toHaveProperty('namespaces');
+  });
+});
@@ -1,41 +1,360 @@
-import z from "zod";
+import { generateToolMembers } from "./generate_declarations";
+import {
+  flattenTools,
+  NAMESPACE_SEPARATOR,
+  ToolRegistry,
+} from "./tool_registry";
+import { getInputSchema, normalizeSchema } from "./tool_schema";
+import { Tool } from "./types";
 
-type Tool = {
-  description?: string;
-  inputSchema: z.ZodType<any>;
-  execute: (params: any) => Promise<any> | any;
+export type EmbedFunction = (
+  texts: string[],
+  options?: { abortSignal?: AbortSignal }
+) => Promise<number[][]>;
+
+export type SemanticSearchOptions = {
+  /** Turns texts into embedding vectors, e.g. with the AI SDK `embedMany` */
+  embed: EmbedFunction;
+  /** Weight of the keyword score when combined with vector similarity, between 0 and 1 (default 0.3) */
+  lexicalWeight?: number;
+  /** Minimum cosine similarity for a tool to match without any keyword hits (default 0.2) */
+  minSimilarity?: number;
+};
+
+export type DiscoverToolsOptions = {
+  /** Return TypeScript signatures instead of JSON Schema */
+  declarations?: boolean;
+  /** Maximum number of tools to return (default 10) */
+  limit?: number;
+  /** Only return tools in this namespace or its nested namespaces, e.g. "github" */
+  namespace?: string;
+  /** Rank tools by embedding similarity in addition to keywords */
+  semantic?: SemanticSearchOptions;
+  /** Cancels the search, and is passed on to embed for the query */
+  abortSignal?: AbortSignal;
+};
+
+type ToolDocument = {
+  name: string;
+  tool: Tool;
+  schema: unknown;
+  /** The text embedded for semantic search */
+  text: string;
+  termFrequencies: Map<string, number>;
+  length: number;
 };
 
-export function discoverToolsInMemory(
+export type ToolIndex = {
+  documents: ToolDocument[];
+  documentFrequencies: Map<string, number>;
+  averageLength: number;
+  /** Tool embeddings, computed on the first semantic query and cached */
+  embeddings?: Promise<number[][]>;
+};
+
+const DEFAULT_LIMIT = 10;
+const DEFAULT_LEXICAL_WEIGHT = 0.3;
+const DEFAULT_MIN_SIMILARITY = 0.2;
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+// Matches in the tool name are a stronger signal than matches in the description or schema
+const FIELD_WEIGHTS = {
+  name: 3,
+  description: 1,
+  properties: 1.5,
+};
+
+const STOP_WORDS = new Set([
+  "a",
+  "an",
+  "and",
+  "are",
+  "as",
+  "at",
+  "be",
+  "by",
+  "for",
+  "from",
+  "in",
+  "is",
+  "it",
+  "of",
+  "on",
+  "or",
+  "that",
+  "the",
+  "this",
+  "to",
+  "with",
+]);
+
+/**
+ * Builds the search index once, so queries don't have to convert every
+ * schema again. Tools in namespaces are indexed by their full name, e.g.
+ * "github.createIssue".
+ */
+export function createToolIndex(tools: ToolRegistry): ToolIndex {
+  const documents: ToolDocument[] = [];
+  const documentFrequencies = new Map<string, number>();
+
+  for (const [name, tool] of Object.entries(flattenTools(tools))) {
+    const schema = normalizeSchema(getInputSchema(tool)).jsonSchema;
+    const termFrequencies = new Map<string, number>();
+    let length = 0;
+
+    const addTerms = (text: string, weight: number) => {
+      for (const term of tokenize(text)) {
+        termFrequencies.set(term, (termFrequencies.get(term) || 0) + weight);
+        length += weight;
+      }
+    };
+
+    const schemaText = collectSchemaText(schema).join(" ");
+    addTerms(name, FIELD_WEIGHTS.name);
+    addTerms(tool.description || "", FIELD_WEIGHTS.description);
+    addTerms(schemaText, FIELD_WEIGHTS.properties);
+
+    for (const term of termFrequencies.keys()) {
+      documentFrequencies.set(term, (documentFrequencies.get(term) || 0) + 1);
+    }
+
+    documents.push({
+      name,
+      tool,
+      schema,
+      text: [name, tool.description, schemaText].filter(Boolean).join("\n"),
+      termFrequencies,
+      length,
+    });
+  }
+
+  const totalLength = documents.reduce((sum, doc) => sum + doc.length, 0);
+
+  return {
+    documents,
+    documentFrequencies,
+    averageLength: documents.length ? totalLength / documents.length : 0,
+  };
+}
+
+/**
+ * Ranks the indexed tools against the query with BM25 over their name,
+ * description and schema properties, optionally combined with embedding
+ * similarity.
+ */
+export async function discoverToolsInMemory(
   query: string,
-  tools: Record<string, Tool>
+  index: ToolIndex,
+  options: DiscoverToolsOptions = {}
 ) {
-  try {
-    const matchedTools = [];
-    const regex = new RegExp(query, "i"); // Case-insensitive search
-
-    for (const [name, tool] of Object.entries(tools)) {
-      // Stringify the schema for searching
-      const schemaJson = z.toJSONSchema(tool.inputSchema);
-      const schemaString = JSON.stringify(schemaJson);
-      const description = tool.description || "";
-
-      // Check if query matches tool name, description, or schema
-      if (
-        regex.test(name) ||
-        regex.test(description) ||
-        regex.test(schemaString)
-      ) {
-        matchedTools.push({
-          name,
-          description,
-          schema: schemaJson,
-        });
-      }
+  const limit = options.limit ?? DEFAULT_LIMIT;
+  const terms = Array.from(new Set(tokenize(query)));
+
+  let ranked: { doc: ToolDocument; score: number }[];
+
+  if (!query.trim()) {
+    // An empty query lists the tools in their original order
+    ranked = index.documents.map((doc) => ({ doc, score: 0 }));
+  } else if (options.semantic) {
+    ranked = await rankSemantic(
+      query,
+      terms,
+      index,
+      options.semantic,
+      options.abortSignal
+    );
+    options.abortSignal?.throwIfAborted();
+  } else {
+    ranked = index.documents
+      .map((doc) => ({ doc, score: score(doc, terms, index) }))
+      .filter((match) => match.score > 0)
+      .sort((a, b) => b.score - a.score);
+  }
+
+  if (options.namespace) {
+    const prefix = options.namespace + NAMESPACE_SEPARATOR;
+    ranked = ranked.filter(({ doc }) => doc.name.startsWith(prefix));
+  }
+  const namespaces = listNamespaces(index, options.namespace);
+
+  return {
+    tools: ranked.slice(0, limit).map(({ doc, score }) => {
+      const description = doc.tool.description || "";
+      const roundedScore = Math.round(score * 1000) / 1000;
+
+      return options.declarations
+        ? {
+            name: doc.name,
+            description,
+            score: roundedScore,
+            declaration: generateToolMembers({
+              [doc.name]: doc.tool,
+            }).join("\n"),
+          }
+        : {
+            name: doc.name,
+            description,
+            score: roundedScore,
+            schema: doc.schema,
+          };
+    }),
+    total: ranked.length,
+    // Only registries with namespaces list them, so the model can narrow its search
+    ...(namespaces.length ? { namespaces } : {}),
+  };
+}
+
+/**
+ * The namespaces directly inside a namespace, or the top-level ones, with the
+ * number of tools in each, counting the tools of nested namespaces too.
+ */
+export function listNamespaces(index: ToolIndex, namespace = "") {
+  const prefix = namespace ? namespace + NAMESPACE_SEPARATOR : "";
+  const counts = new Map<string, number>();
+
+  for (const { name } of index.documents) {
+    if (!name.startsWith(prefix)) continue;
+
+    const end = name.indexOf(NAMESPACE_SEPARATOR, prefix.length);
+    if (end === -1) continue;
+
+    const child = name.slice(0, end);
+    counts.set(child, (counts.get(child) ?? 0) + 1);
+  }
+
+  return Array.from(counts, ([name, tools]) => ({ name, tools }));
+}
+
+async function rankSemantic(
+  query: string,
+  terms: string[],
+  index: ToolIndex,
+  options: SemanticSearchOptions,
+  abortSignal?: AbortSignal
+) {
+  const lexicalWeight = options.lexicalWeight ?? DEFAULT_LEXICAL_WEIGHT;
+  const minSimilarity = options.minSimilarity ?? DEFAULT_MIN_SIMILARITY;
+
+  const [embeddings, [queryEmbedding]] = await Promise.all([
+    // The tool embeddings are shared by every query, so only the query's embedding is cancelled
+    getToolEmbeddings(index, options.embed),
+    options.embed([query], { abortSignal }),
+  ]);
+
+  const lexicalScores = index.documents.map((doc) => score(doc, terms, index));
+  const maxLexicalScore = Math.max(0, ...lexicalScores);
+
+  return index.documents
+    .map((doc, docIndex) => {
+      const similarity = cosineSimilarity(queryEmbedding, embeddings[docIndex]);
+      const lexicalScore = maxLexicalScore
+        ? lexicalScores[docIndex] / maxLexicalScore
+        : 0;
+
+      return {
+        doc,
+        similarity,
+        lexicalScore,
+        score: lexicalWeight * lexicalScore + (1 - lexicalWeight) * similarity,
+      };
+    })
+    .filter(
+      (match) => match.lexicalScore > 0 || match.similarity >= minSimilarity
+    )
+    .sort((a, b) => b.score - a.score)
+    .map(({ doc, score }) => ({ doc, score }));
+}
+
+// Embeds every tool once. A failed request is not cached, so the next query retries it
+function getToolEmbeddings(index: ToolIndex, embed: EmbedFunction) {
+  if (!index.embeddings) {
+    index.embeddings = embed(index.documents.map((doc) => doc.text));
+    index.embeddings.catch(() => {
+      index.embeddings = undefined;
+    });
+  }
+
+  return index.embeddings;
+}
+
+function cosineSimilarity(a: number[], b: number[]) {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+function score(doc: ToolDocument, terms: string[], index: ToolIndex) {
+  const documentCount = index.documents.length;
+  let total = 0;
+
+  for (const term of terms) {
+    const frequency = doc.termFrequencies.get(term);
+    if (!frequency) continue;
+
+    const documentFrequency = index.documentFrequencies.get(term) || 0;
+    const idf = Math.log(
+      1 + (documentCount - documentFrequency + 0.5) / (documentFrequency + 0.5)
+    );
+    const normalization =
+      K1 * (1 - B + (B * doc.length) / (index.averageLength || 1));
+
+    total += (idf * frequency * (K1 + 1)) / (frequency + normalization);
+  }
+
+  return total;
+}
+
+// Splits camelCase, snake_case and kebab-case words and reduces plurals to their singular form
+function tokenize(text: string) {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .replace(/([A-Z])([A-Z][a-z])/g, "$1 $2")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word && !STOP_WORDS.has(word))
+    .map(singularize);
+}
+
+function singularize(word: string) {
+  if (word.length > 4 && word.endsWith("ies")) return word.slice(0, -3) + "y";
+  if (word.length > 3 && word.endsWith("s") && !word.endsWith("ss")) {
+    return word.slice(0, -1);
+  }
+  return word;
+}
+
+// Property names and descriptions of the schema, including nested objects and arrays
+function collectSchemaText(schema: any, text: string[] = []) {
+  if (!schema || typeof schema !== "object") return text;
+
+  if (schema.properties) {
+    for (const [key, property] of Object.entries<any>(schema.properties)) {
+      text.push(key);
+      if (property?.description) text.push(property.description);
+      collectSchemaText(property, text);
     }
+  }
 
-    return { tools: matchedTools };
-  } catch {
-    return { tools: [] };
+  for (const nested of [
+    schema.items,
+    schema.additionalProperties,
+    ...(schema.anyOf || []),
+    ...(schema.oneOf || []),
+    ...(schema.allOf || []),
+  ]) {
+    collectSchemaText(nested, text);
   }
+
+  return text;
 }
@@ -0,0 +1,130 @@
+import { GuardSite } from "./instrument_code";
+
+/**
+ * Thrown to the sandboxed code when a tool is called with input that does not
+ * match its inputSchema.
+ */
+export class ToolInputError extends Error {
+  name = "ToolInputError";
+
+  constructor(
+    public toolName: string,
+    public issues: { path: string; message: string }[]
+  ) {
+    super(
+      `Invalid input for tool "${toolName}":\n${issues
+        .map((issue) => `- ${issue.path}: ${issue.message}`)
+        .join("\n")}`
+    );
+  }
+}
+
+/**
+ * Thrown to the sandboxed code when the approval policy denies a tool call.
+ */
+export class ToolCallDeniedError extends Error {
+  name = "ToolCallDeniedError";
+
+  constructor(
+    public toolName: string,
+    public reason: string
+  ) {
+    super(`Call to tool "${toolName}" was denied: ${reason}`);
+  }
+}
+
+/**
+ * Thrown to the sandboxed code when it reads a result handle that isn't, or
+ * is no longer, in the result store.
+ */
+export class ResultNotFoundError extends Error {
+  name = "ResultNotFoundError";
+
+  constructor(public handle: string) {
+    super(
+      `No stored result for "${handle}". Only the most recent truncated results are kept`
+    );
+  }
+}
+
+export type ToolCallCounts = {
+  total: number;
+  inFlight: number;
+  byTool: Record<string, number>;
+};
+
+/**
+ * Aborts the execution when the code makes more tool calls than the configured
+ * limits allow.
+ */
+export class ToolCallLimitError extends Error {
+  name = "ToolCallLimitError";
+
+  constructor(
+    public limit: string,
+    public counts: ToolCallCounts
+  ) {
+    super(`Tool call limit exceeded: ${limit}. ${describeCounts(counts)}`);
+  }
+}
+
+function describeCounts(counts: ToolCallCounts) {
+  const byTool = Object.entries(counts.byTool)
+    .map(([name, count]) => `${name}: ${count}`)
+    .join(", ");
+
+  return `Calls attempted: ${counts.total} (${byTool}), in flight: ${counts.inFlight}`;
+}
+
+/**
+ * Aborts the execution when one run of a loop has more iterations than
+ * maxIterations, or calls are nested deeper than maxCallDepth.
+ */
+export class IterationLimitError extends Error {
+  name = "IterationLimitError";
+
+  constructor(
+    public site: GuardSite,
+    public limit: number
+  ) {
+    super(
+      site.kind === "function"
+        ? `Call depth limit exceeded: calls to the function at line ${site.line} were nested more than ${limit} deep`
+        : `Iteration limit exceeded: the ${site.kind} loop at line ${site.line} ran more than ${limit} iterations`
+    );
+  }
+}
+
+/**
+ * Thrown when the code leaves more data in the session state than the
+ * session allows. The state of the session is left unchanged.
+ */
+export class SessionStateLimitError extends Error {
+  name = "SessionStateLimitError";
+
+  constructor(
+    public size: number,
+    public limit: number
+  ) {
+    super(
+      `Session state size limit exceeded: the state is ${size} bytes, the limit is ${limit} bytes. Remove data that is no longer needed from state`
+    );
+  }
+}
+
+export type SandboxErrorKind = "timeout" | "memory" | "crash" | "cancelled";
+
+/**
+ * Thrown by the sandbox runner when the worker itself fails, rather than the
+ * executed code.
+ */
+export class SandboxError extends Error {
+  name = "SandboxError";
+
+  constructor(
+    public kind: SandboxErrorKind,
+    message: string
+  ) {
+    super(message);
+  }
+}
@@ -1,5 +1,8 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
+import { z } from 'zod';
 import { executeTools } from './execute_tools';
+import { createResultStore } from './result_store';
+import { createSession } from './session';
 
 describe('executeTools with AST validation', () => {
   const mockTools = {
@@ -281,22 +284,21 @@ describe('executeTools with AST validation', () => {
   });
 
   describe('infinite loop prevention', () => {
-    it('should block while loops', async () => {
+    it('should allow while loops', async () => {
       const code = `
-        let counter = 0;
-        while(true) {
-          counter++;
+        let attempts = 0;
+        while (attempts < 3) {
+          attempts++;
         }
-        return counter;
+        return attempts;
       `;
 
       const result = await executeTools(code, mockTools);
 
-      expect(result.output).toContain('Code validation failed');
-      expect(result.output).toContain('while loops are not allowed');
+      expect(result.output).toBe('3');
     });
 
-    it('should block do-while loops', async () => {
+    it('should allow do-while loops', async () => {
       const code = `
         let i = 0;
         do {
@@ -307,8 +309,182 @@ describe('executeTools with AST validation', () => {
 
       const result = await executeTools(code, mockTools);
 
-      expect(result.output).toContain('Code validation failed');
-      expect(result.output).toContain('do-while loops are not allowed');
+      expect(result.output).toBe('10');
+    });
+
+    it('should allow polling until a job is done', async () => {
+      let checks = 0;
+      const tools = {
+        getJobStatus: {
+          execute: async () => (++checks < 3 ? 'running' : 'done')
+        }
+      };
+      const code = `
+        let status;
+        do {
+          status = await tools.getJobStatus();
+        } while (status !== 'done');
+        return status;
+      `;
+
+      const result = await executeTools(code, tools);
+
+      expect(result.output).toBe('done');
+      expect(result.calls).toHaveLength(3);
+    });
+
+    it.each([
+      ['for', `for (;;) {}`],
+      ['while', `while (true) {}`],
+      ['do-while', `do {} while (true);`],
+      ['for-of', `const items = [1];\nfor (const item of items) { items.push(item); }`],
+      [
+        'for-in',
+        `const keys = Object.fromEntries(Array.from({ length: 2000 }, (_, i) => ['k' + i, i]));\nfor (const key in keys) {}`
+      ]
+    ])('should stop a runaway %s loop', async (kind, code) => {
+      const result = await executeTools(code, mockTools, { maxIterations: 1000 });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.kind).toBe('limit');
+      expect(result.error?.name).toBe('IterationLimitError');
+      expect(result.error?.message).toContain(`the ${kind} loop at line`);
+      expect(result.error?.message).toContain('ran more than 1000 iterations');
+    });
+
+    it('should report the loop that exceeded the limit', async () => {
+      const code = `let i = 0;
+while (true) {
+  i++;
+}`;
+
+      const result = await executeTools(code, mockTools, { maxIterations: 1000 });
+
+      expect(result.error?.message).toBe(
+        'Iteration limit exceeded: the while loop at line 2 ran more than 1000 iterations'
+      );
+    });
+
+    it('should count the iterations of a loop again every time it is entered', async () => {
+      const code = `
+        let count = 0;
+        for (let i = 0; i < 1100; i++) {
+          for (let j = 0; j < 1000; j++) count++;
+        }
+        return count;
+      `;
+
+      const result = await executeTools(code, mockTools);
+
+      expect(result.success).toBe(true);
+      expect(result.output).toBe('1100000');
+    });
+
+    it('should allow a function to be called any number of times', async () => {
+      const code = `
+        const add = (a, b) => a + b;
+        let sum = 0;
+        for (let i = 0; i < 1200000; i++) {
+          sum = add(sum, 1);
+        }
+        return sum;
+      `;
+
+      const result = await executeTools(code, mockTools, { maxIterations: 2_000_000 });
+
+      expect(result.success).toBe(true);
+      expect(result.output).toBe('1200000');
+    });
+
+    it('should stop runaway recursion', async () => {
+      const code = `
+        function walk(node) {
+          return walk({ parent: node });
+        }
+        return walk({});
+      `;
+
+      const result = await executeTools(code, mockTools, { maxCallDepth: 100 });
+
+      expect(result.error?.kind).toBe('limit');
+      expect(result.error?.message).toBe(
+        'Call depth limit exceeded: calls to the function at line 2 were nested more than 100 deep'
+      );
+    });
+
+    it('should stop runaway recursion of an async function across awaits', async () => {
+      const code = `
+        async function poll() {
+          await null;
+          return poll();
+        }
+        return poll();
+      `;
+
+      const result = await executeTools(code, mockTools);
+
+      expect(result.error?.kind).toBe('limit');
+      expect(result.error?.message).toBe(
+        'Call depth limit exceeded: calls to the function at line 2 were nested more than 1000 deep'
+      );
+    });
+
+    it('should not count concurrent async calls as nested', async () => {
+      const code = `
+        const items = Array.from({ length: 50 }, (_, i) => i);
+        const results = await Promise.all(
+          items.map(async (id) => {
+            await null;
+            const value = await tools.greet(String(id));
+            return value;
+          })
+        );
+        return results.length;
+      `;
+
+      const result = await executeTools(code, mockTools, { maxCallDepth: 10 });
+
+      expect(result.success).toBe(true);
+      expect(result.output).toBe('50');
+    });
+
+    it('should allow recursion within the call depth limit', async () => {
+      const code = `
+        function depth(n) {
+          return n === 0 ? 0 : 1 + depth(n - 1);
+        }
+        return depth(99);
+      `;
+
+      const result = await executeTools(code, mockTools, { maxCallDepth: 100 });
+
+      expect(result.success).toBe(true);
+      expect(result.output).toBe('99');
+    });
+
+    it('should stop the execution even if the code catches the limit error', async () => {
+      const code = `
+        for (;;) {
+          try {
+            while (true) {}
+          } catch {}
+        }
+      `;
+
+      const result = await executeTools(code, mockTools, { maxIterations: 1000 });
+
+      expect(result.error?.kind).toBe('limit');
+      expect(result.error?.message).toContain('while loop at line 4');
+    });
+
+    it('should not allow the code to use the loop guard', async () => {
+      const result = await executeTools(
+        `const __guard = () => {};\nfor (;;) {}`,
+        mockTools
+      );
+
+      expect(result.error?.kind).toBe('validation');
+      expect(result.output).toContain('Reserved identifier: __guard');
     });
 
     it('should allow for loops', async () => {
@@ -393,4 +569,1419 @@ describe('executeTools with AST validation', () => {
       expect(result.output).toContain('Code validation failed');
     });
   });
+
+  describe('isolated execution', () => {
+    it('should stop code that runs past the timeout', async () => {
+      const code = `
+        for (;;) {}
+      `;
+
+      const result = await executeTools(code, mockTools, { timeout: 200, maxIterations: Infinity });
+
+      expect(result.output).toBe('Error: Execution timed out after 200ms');
+    });
+
+    it('should stop code that exceeds the memory limit', async () => {
+      const code = `
+        const chunks = [];
+        for (;;) {
+          chunks.push(new Array(100000).fill(Math.random()));
+        }
+      `;
+
+      const result = await executeTools(code, mockTools, { memoryLimit: 16 });
+
+      expect(result.output).toBe('Error: Execution exceeded the memory limit of 16MB');
+    });
+
+    it('should keep the host responsive while sandboxed code is busy', async () => {
+      let ticks = 0;
+      const interval = setInterval(() => ticks++, 10);
+
+      await executeTools('for (;;) {}', mockTools, { timeout: 200, maxIterations: Infinity });
+      clearInterval(interval);
+
+      expect(ticks).toBeGreaterThan(5);
+    });
+
+    it('should surface errors thrown by tools to the sandboxed code', async () => {
+      const failingTools = {
+        fail: {
+          execute: async () => {
+            throw new Error('Service unavailable');
+          }
+        }
+      };
+
+      const code = `
+        try {
+          await tools.fail();
+        } catch (error) {
+          return 'Caught: ' + error.message;
+        }
+      `;
+
+      const result = await executeTools(code, failingTools);
+
+      expect(result.output).toBe('Caught: Service unavailable');
+    });
+  });
+
+  describe('tool input validation', () => {
+    const emailTools = {
+      sendEmail: {
+        inputSchema: z.object({
+          to: z.string(),
+          subject: z.string().default('(no subject)'),
+        }),
+        execute: async (input: { to: string; subject: string }) => input,
+      },
+    };
+
+    it('should pass parsed input to the tool', async () => {
+      const code = `
+        return await tools.sendEmail({ to: 'user@example.com' });
+      `;
+
+      const result = await executeTools(code, emailTools);
+
+      expect(JSON.parse(result.output)).toEqual({
+        to: 'user@example.com',
+        subject: '(no subject)',
+      });
+    });
+
+    it('should reject input that does not match the schema', async () => {
+      const code = `
+        const input = { too: 'user@example.com' };
+        return await tools.sendEmail(input);
+      `;
+
+      const result = await executeTools(code, emailTools);
+
+      expect(result.output).toContain('Invalid input for tool "sendEmail"');
+      expect(result.output).toContain('- to: ');
+    });
+
+    it('should let the code catch invalid input errors', async () => {
+      const code = `
+        try {
+          const input = { to: 42 };
+          await tools.sendEmail(input);
+        } catch (error) {
+          return error.name;
+        }
+      `;
+
+      const result = await executeTools(code, emailTools);
+
+      expect(result.output).toBe('ToolInputError');
+    });
+
+    it('should explain that functions can not be passed to tools', async () => {
+      const code = `return await tools.sendEmail({ to: () => 1 });`;
+
+      const result = await executeTools(code, emailTools);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.name).toBe('TypeError');
+      expect(result.error?.message).toBe(
+        'Tool arguments must be cloneable data (functions are not allowed)'
+      );
+      expect(result.output).not.toContain('__guard');
+    });
+
+    it('should fail calls of tools without an execute function', async () => {
+      const registry = {
+        ui: { askUser: { inputSchema: z.object({ question: z.string() }) } },
+      };
+
+      const result = await executeTools(`return await tools.ui.askUser({ question: 'Why?' });`, registry);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toBe('ui.askUser has no execute function');
+    });
+  });
+
+  describe('error locations', () => {
+    it('should point runtime errors at the original line and column', async () => {
+      const code = `const t = tools;\nfor (const i of [1]) { await t.fetchAll(); }`;
+
+      const result = await executeTools(code, mockTools);
+
+      expect(result.error?.location).toEqual({ line: 2, column: 32 });
+      expect(result.output).toBe(
+        'Error: t.fetchAll is not a function (line 2, column 32)\n\n' +
+        '  1 | const t = tools;\n' +
+        '> 2 | for (const i of [1]) { await t.fetchAll(); }\n' +
+        '    |                                ^'
+      );
+    });
+
+    it('should point parse errors at the original line and column', async () => {
+      const result = await executeTools(`const a = 1;\nreturn (;`, mockTools);
+
+      expect(result.error?.kind).toBe('validation');
+      expect(result.error?.location).toEqual({ line: 2, column: 9 });
+      expect(result.output).toContain('Failed to parse code: Unexpected token (line 2, column 9)');
+      expect(result.output).toContain('> 2 | return (;\n    |         ^');
+    });
+
+    it('should locate errors thrown inside nested functions', async () => {
+      const code = `const pick = (user) => user.profile.name;\nreturn [{}].map(pick);`;
+
+      const result = await executeTools(code, mockTools);
+
+      expect(result.error?.location).toEqual({ line: 1, column: 37 });
+    });
+
+    it('should only keep stack frames in the code', async () => {
+      const code = `function fail() {\n  throw new Error('nope');\n}\nfail();`;
+
+      const result = await executeTools(code, mockTools);
+
+      expect(result.error?.stack).toBe(
+        'Error: nope\n    at fail (execute_tools.js:2:9)\n    at execute_tools.js:4:1'
+      );
+    });
+
+    it('should show a code frame for the first validation error', async () => {
+      const result = await executeTools(`const a = 1;\nreturn process.env;`, mockTools);
+
+      expect(result.error?.location).toEqual({ line: 2, column: 8 });
+      expect(result.output).toBe(
+        'Code validation failed:\nForbidden identifier: process (line 2, column 8)\n\n' +
+        '  1 | const a = 1;\n' +
+        '> 2 | return process.env;\n' +
+        '    |        ^'
+      );
+    });
+
+    it('should not locate errors from the host', async () => {
+      const result = await executeTools(`await tools.greet('A');\nawait tools.greet('B');`, mockTools, {
+        limits: { maxToolCalls: 1 },
+      });
+
+      expect(result.error?.kind).toBe('limit');
+      expect(result.error?.location).toBeUndefined();
+      expect(result.error?.frame).toBeUndefined();
+    });
+  });
+
+  describe('static tool call checks', () => {
+    const weatherTools = {
+      getWeather: {
+        inputSchema: z.object({ city: z.string() }),
+        execute: vi.fn(async ({ city }: { city: string }) => `Sunny in ${city}`)
+      },
+      sendEmail: {
+        execute: vi.fn(async () => 'sent')
+      }
+    };
+
+    it('should reject unknown tools before any tool call runs', async () => {
+      const code = `
+        await tools.sendEmail('Forecast follows');
+        return await tools.getWheather({ city: 'Paris' });
+      `;
+
+      const result = await executeTools(code, weatherTools);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.kind).toBe('validation');
+      expect(result.output).toContain('Unknown tool: tools.getWheather. Did you mean tools.getWeather? (line 3, column 28)');
+      expect(weatherTools.sendEmail.execute).not.toHaveBeenCalled();
+    });
+
+    it('should reject literal inputs that do not match the schema', async () => {
+      const result = await executeTools(`return await tools.getWeather({ city: 7 });`, weatherTools);
+
+      expect(result.error?.kind).toBe('validation');
+      expect(result.output).toContain('Invalid input for tool "getWeather": city: ');
+      expect(weatherTools.getWeather.execute).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('structured result', () => {
+    it('should return the value and a trace of tool calls', async () => {
+      const code = `
+        const a = await tools.greet('A');
+        const b = await tools.greet('B');
+        return [a, b];
+      `;
+
+      const result = await executeTools(code, mockTools);
+
+      expect(result.success).toBe(true);
+      expect(result.value).toEqual(['Hello, A!', 'Hello, B!']);
+      expect(result.calls.map((call) => [call.tool, call.input, call.output])).toEqual([
+        ['greet', 'A', 'Hello, A!'],
+        ['greet', 'B', 'Hello, B!'],
+      ]);
+      expect(result.error).toBeUndefined();
+    });
+
+    it('should describe runtime errors with their kind and stack', async () => {
+      const code = `
+        await tools.greet('A');
+        throw new TypeError('Something broke');
+      `;
+
+      const result = await executeTools(code, mockTools);
+
+      expect(result.success).toBe(false);
+      expect(result.output).toBe(
+        'Error: Something broke (line 3, column 15)\n\n' +
+        "  2 |         await tools.greet('A');\n" +
+        "> 3 |         throw new TypeError('Something broke');\n" +
+        '    |               ^'
+      );
+      expect(result.error).toMatchObject({
+        kind: 'runtime',
+        name: 'TypeError',
+        message: 'Something broke',
+      });
+      expect(result.error?.stack).toContain('TypeError');
+      expect(result.calls).toHaveLength(1);
+    });
+
+    it('should record failed tool calls in the trace', async () => {
+      const failingTools = {
+        fail: {
+          execute: async () => {
+            throw new Error('Service unavailable');
+          }
+        }
+      };
+
+      const result = await executeTools('return await tools.fail();', failingTools);
+
+      expect(result.calls[0].error).toEqual({
+        name: 'Error',
+        message: 'Service unavailable',
+      });
+    });
+
+    it('should mark validation and timeout failures with their kind', async () => {
+      const invalid = await executeTools('eval("1")', mockTools);
+      const timedOut = await executeTools('for (;;) {}', mockTools, {
+        timeout: 100,
+        maxIterations: Infinity
+      });
+
+      expect(invalid.error?.kind).toBe('validation');
+      expect(timedOut.error?.kind).toBe('timeout');
+    });
+  });
+
+  describe('console output', () => {
+    it('should capture console output alongside the return value', async () => {
+      const code = `
+        const greeting = await tools.greet('World');
+        console.log('Got greeting:', greeting);
+        console.warn('Careful');
+        return 'done';
+      `;
+
+      const result = await executeTools(code, mockTools);
+
+      expect(result.logs).toEqual([
+        { level: 'log', message: 'Got greeting: Hello, World!' },
+        { level: 'warn', message: 'Careful' },
+      ]);
+      expect(result.output).toBe(
+        'done\n\nConsole output:\nGot greeting: Hello, World!\n[warn] Careful'
+      );
+    });
+
+    it('should render console.table', async () => {
+      const code = `
+        console.table([{ city: 'Oslo', temperature: 4 }]);
+      `;
+
+      const result = await executeTools(code, mockTools);
+
+      expect(result.logs[0].message).toContain('city');
+      expect(result.logs[0].message).toContain('Oslo');
+    });
+
+    it('should cap the amount of console output', async () => {
+      const code = `
+        for (let i = 0; i < 100; i++) {
+          console.log('0123456789');
+        }
+      `;
+
+      const result = await executeTools(code, mockTools, { maxConsoleOutput: 50 });
+
+      expect(result.logs).toHaveLength(6);
+      expect(result.logs[5].message).toBe('Console output truncated after 50 characters');
+    });
+
+    it('should keep console output from runs that time out', async () => {
+      const code = `
+        console.log('Starting');
+        for (;;) {}
+      `;
+
+      const result = await executeTools(code, mockTools, { timeout: 200 });
+
+      expect(result.logs).toEqual([{ level: 'log', message: 'Starting' }]);
+    });
+  });
+
+  describe('tool call approval', () => {
+    const sent: unknown[] = [];
+    const approvalTools = {
+      sendEmail: {
+        needsApproval: true,
+        inputSchema: z.object({ to: z.string() }),
+        execute: async (input: { to: string }) => {
+          sent.push(input);
+          return 'sent';
+        },
+      },
+      lookup: {
+        inputSchema: z.object({ id: z.number() }),
+        execute: async ({ id }: { id: number }) => `record ${id}`,
+      },
+    };
+
+    it('should deny tools that need approval when no policy is configured', async () => {
+      const result = await executeTools(
+        `return await tools.sendEmail({ to: 'user@example.com' });`,
+        approvalTools
+      );
+
+      expect(result.output).toBe(
+        'Error: Call to tool "sendEmail" was denied: The tool requires approval (line 1, column 8)\n\n' +
+        "> 1 | return await tools.sendEmail({ to: 'user@example.com' });\n" +
+        '    |        ^'
+      );
+      expect(result.calls[0].approval).toBe('denied');
+    });
+
+    it('should run calls the policy approves', async () => {
+      const result = await executeTools(
+        `return await tools.sendEmail({ to: 'user@example.com' });`,
+        approvalTools,
+        { onBeforeToolCall: () => ({ type: 'approve' }) }
+      );
+
+      expect(result.output).toBe('sent');
+      expect(result.calls[0].approval).toBe('approved');
+    });
+
+    it('should pass the parsed input and approval flag to the policy', async () => {
+      const requests: unknown[] = [];
+
+      await executeTools(
+        `await tools.lookup({ id: 1 }); await tools.sendEmail({ to: 'a@b.c' });`,
+        approvalTools,
+        {
+          onBeforeToolCall: (request) => {
+            requests.push(request);
+            return { type: 'approve' };
+          },
+        }
+      );
+
+      expect(requests).toEqual([
+        { tool: 'lookup', input: { id: 1 }, needsApproval: false },
+        { tool: 'sendEmail', input: { to: 'a@b.c' }, needsApproval: true },
+      ]);
+    });
+
+    it('should report denied calls the code caught', async () => {
+      const code = `
+        try {
+          await tools.sendEmail({ to: 'user@example.com' });
+        } catch (error) {
+          // Ignore
+        }
+        return await tools.lookup({ id: 1 });
+      `;
+
+      const result = await executeTools(code, approvalTools, {
+        onBeforeToolCall: ({ tool }) =>
+          tool === 'sendEmail'
+            ? { type: 'deny', reason: 'Emails are disabled' }
+            : undefined,
+      });
+
+      expect(result.output).toBe(
+        'record 1\n\nDenied tool calls:\n- Call to tool "sendEmail" was denied: Emails are disabled'
+      );
+    });
+
+    it('should let the policy rewrite the input', async () => {
+      sent.length = 0;
+
+      const result = await executeTools(
+        `return await tools.sendEmail({ to: 'customer@example.com' });`,
+        approvalTools,
+        {
+          onBeforeToolCall: () => ({
+            type: 'rewrite',
+            input: { to: 'review@example.com' },
+          }),
+        }
+      );
+
+      expect(result.output).toBe('sent');
+      expect(sent).toEqual([{ to: 'review@example.com' }]);
+      expect(result.calls[0]).toMatchObject({
+        approval: 'rewritten',
+        input: { to: 'review@example.com' },
+      });
+    });
+  });
+
+  describe('tool call limits', () => {
+    it('should abort when the code makes too many tool calls', async () => {
+      let executed = 0;
+      const countingTools = {
+        charge: {
+          execute: async () => ++executed,
+        },
+      };
+
+      const code = `
+        for (let i = 0; i < 10000; i++) {
+          await tools.charge();
+        }
+      `;
+
+      const result = await executeTools(code, countingTools, {
+        limits: { maxToolCalls: 3 },
+      });
+
+      expect(executed).toBe(3);
+      expect(result.error?.kind).toBe('limit');
+      expect(result.output).toBe(
+        'Error: Tool call limit exceeded: maxToolCalls is 3. Calls attempted: 4 (charge: 4), in flight: 1'
+      );
+    });
+
+    it('should limit calls per tool', async () => {
+      const code = `
+        await tools.greet('A');
+        await tools.readFile('a.txt');
+        await tools.readFile('b.txt');
+        await tools.greet('B');
+      `;
+
+      const result = await executeTools(code, mockTools, {
+        limits: { maxCallsPerTool: { readFile: 1 } },
+      });
+
+      expect(result.output).toContain('maxCallsPerTool for "readFile" is 1');
+      expect(result.calls.map((call) => call.input)).toEqual(['A', 'a.txt']);
+    });
+
+    it('should not let the code catch a limit error', async () => {
+      const code = `
+        try {
+          await tools.greet('A');
+          await tools.greet('B');
+        } catch {
+          return 'caught';
+        }
+      `;
+
+      const result = await executeTools(code, mockTools, {
+        limits: { maxCallsPerTool: 1 },
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.kind).toBe('limit');
+    });
+
+    it('should limit concurrent tool calls', async () => {
+      const slowTools = {
+        wait: {
+          execute: () => new Promise((resolve) => setTimeout(resolve, 50)),
+        },
+      };
+
+      const code = `
+        await Promise.all([1, 2, 3].map(() => tools.wait()));
+      `;
+
+      const result = await executeTools(code, slowTools, {
+        limits: { maxConcurrentCalls: 2 },
+      });
+
+      expect(result.output).toContain('maxConcurrentCalls is 2');
+      expect(result.output).toContain('in flight: 3');
+    });
+  });
+
+  describe('lifecycle hooks', () => {
+    it('should report the execution and each tool call', async () => {
+      const events: [string, any][] = [];
+      const record = (name: string) => (event: any) => {
+        events.push([name, event]);
+      };
+
+      const result = await executeTools(
+        `return await tools.greet('World');`,
+        mockTools,
+        {
+          onExecutionStart: record('executionStart'),
+          onToolCallStart: record('toolCallStart'),
+          onToolCallEnd: record('toolCallEnd'),
+          onExecutionEnd: record('executionEnd'),
+        }
+      );
+
+      expect(events.map(([name]) => name)).toEqual([
+        'executionStart',
+        'toolCallStart',
+        'toolCallEnd',
+        'executionEnd',
+      ]);
+
+      const executionId = events[0][1].executionId;
+      expect(events.every(([, event]) => event.executionId === executionId)).toBe(true);
+      expect(events[2][1]).toMatchObject({
+        tool: 'greet',
+        input: 'World',
+        output: 'Hello, World!',
+        durationMs: expect.any(Number),
+      });
+      expect(events[3][1].result).toBe(result);
+    });
+
+    it('should report validation failures', async () => {
+      const onValidationFailed = vi.fn();
+      const onExecutionEnd = vi.fn();
+
+      await executeTools('eval("1")', mockTools, {
+        onValidationFailed,
+        onExecutionEnd,
+      });
+
+      expect(onValidationFailed).toHaveBeenCalledWith(
+        expect.objectContaining({
+          errors: ['Forbidden identifier: eval (line 1, column 1)'],
+        })
+      );
+      expect(onExecutionEnd).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report console lines', async () => {
+      const onConsole = vi.fn();
+
+      await executeTools(`console.log('Starting', 1);\nconsole.warn('Careful');`, mockTools, {
+        onConsole,
+      });
+
+      expect(onConsole.mock.calls.map(([event]) => [event.level, event.message])).toEqual([
+        ['log', 'Starting 1'],
+        ['warn', 'Careful'],
+      ]);
+      expect(onConsole.mock.calls[0][0].executionId).toEqual(expect.any(String));
+    });
+
+    it('should ignore errors thrown by hooks', async () => {
+      const result = await executeTools(
+        `return await tools.greet('World');`,
+        mockTools,
+        {
+          onToolCallStart: () => {
+            throw new Error('Broken hook');
+          },
+          onExecutionEnd: async () => {
+            throw new Error('Broken async hook');
+          },
+        }
+      );
+
+      expect(result.output).toBe('Hello, World!');
+    });
+  });
+
+  describe('sandbox escape attempts', () => {
+    const escapeTools = {
+      getUser: {
+        execute: async () => ({ id: 1, name: 'Ada' })
+      },
+      fail: {
+        execute: async () => {
+          throw new Error('Tool failed');
+        }
+      },
+      getRich: {
+        execute: async () => ({
+          tags: new Set(['a', 'b']),
+          scores: new Map([['a', 1]]),
+          createdAt: new Date(0),
+          error: new Error('Stored error')
+        })
+      }
+    };
+
+    describe('static property access', () => {
+      it.each([
+        ['dot notation', `return {}.constructor;`],
+        ['bracket notation', `return {}['constructor'];`],
+        ['template literal key', 'return {}[`constructor`];'],
+        ['async function constructor', `return (async () => {}).constructor;`],
+        ['destructuring', `const { constructor } = {}; return constructor;`],
+        ['__proto__ access', `return ({}).__proto__;`],
+        ['__proto__ in object literal', `return { __proto__: null };`],
+        ['__lookupGetter__', `return ({}).__lookupGetter__('x');`],
+        ['getPrototypeOf', `return Object.getPrototypeOf({});`],
+        ['setPrototypeOf', `return Object.setPrototypeOf({}, null);`]
+      ])('should block %s', async (_name, code) => {
+        const result = await executeTools(code, escapeTools);
+
+        expect(result.success).toBe(false);
+        expect(result.error?.kind).toBe('validation');
+        expect(result.output).toContain('is not allowed');
+      });
+
+      it.each([
+        ['Reflect', `return Reflect.construct(Object, []);`],
+        ['Proxy', `return new Proxy({}, {});`],
+        ['globalThis', `return globalThis.process;`],
+        ['WebAssembly', `return WebAssembly.compile(new Uint8Array());`]
+      ])('should block %s', async (name, code) => {
+        const result = await executeTools(code, escapeTools);
+
+        expect(result.error?.kind).toBe('validation');
+        expect(result.output).toMatch(
+          new RegExp(`(Unknown global|Forbidden identifier): ${name}`)
+        );
+      });
+    });
+
+    describe('dynamic property access', () => {
+      const key = `const k = 'constr' + 'uctor';`;
+
+      it.each([
+        ['a plain object', `return ({})[k][k]('return 1')();`],
+        ['a tool', `return tools.getUser[k][k]('return 1')();`],
+        ['a tool result', `const user = await tools.getUser(); return user[k][k]('return 1')();`],
+        ['a tool error', `try { await tools.fail(); } catch (e) { return e[k][k]('return 1')(); }`],
+        ['the console', `return console.log[k][k]('return 1')();`],
+        [
+          'an error thrown while the console formats a value',
+          `const o = { get [Symbol.toStringTag]() { console.log(o); return 'o'; } };
+          try { console.log(o); } catch (e) { return e[k][k]('return 1')(); }`
+        ],
+        [
+          'an error thrown by console.table',
+          `try { console.table([{}], 5); } catch (e) { return e[k][k]('return 1')(); }`
+        ],
+        ['a tagged template', 'return ({})[k][k]`return 1`();'],
+        ['a generator function', `return (function* () {})[k]('yield 1');`],
+        ['an async generator function', `return (async function* () {})[k]('yield 1');`]
+      ])('should not compile code from strings through %s', async (_name, code) => {
+        // The getter recursion is stopped by the worker, not by the call depth limit
+        const result = await executeTools(`${key}\n${code}`, escapeTools, {
+          maxCallDepth: Infinity
+        });
+
+        expect(result.success).toBe(false);
+        expect(result.error?.kind).toBe('runtime');
+        expect(result.error?.message).toContain(
+          'Code generation from strings disallowed'
+        );
+      });
+
+      it('should not expose the sandbox global object through this', async () => {
+        const code = `
+          const g = (function () { return this; })();
+          return [typeof this, typeof g];
+        `;
+
+        const result = await executeTools(code, escapeTools);
+
+        expect(result.value).toEqual(['undefined', 'undefined']);
+      });
+
+      it('should not reach globals outside the allowlist through this', async () => {
+        const result = await executeTools(
+          `return [typeof this.Reflect, typeof this.Proxy, typeof this.WebAssembly];`,
+          escapeTools
+        );
+
+        expect(result.success).toBe(false);
+        expect(result.error?.message).toContain("Cannot read properties of undefined (reading 'Reflect')");
+      });
+
+      it('should not run code that closes the function it runs in', async () => {
+        const code = [
+          `})(); var k = "constr" + "uctor";`,
+          `var leak = this[k][k]("return typeof process.binding + ' ' + process.pid")();`,
+          `(async () => { return leak;`
+        ].join('\n');
+
+        const result = await executeTools(code, escapeTools);
+
+        expect(result.success).toBe(false);
+        expect(result.error?.kind).toBe('validation');
+        expect(result.output).toContain('The code must not close the function it runs in');
+      });
+
+      it('should not allocate typed arrays outside the memory limit through this', async () => {
+        const result = await executeTools(
+          `return new this.Uint8Array(512 * 1024 * 1024).length;`,
+          escapeTools,
+          { memoryLimit: 32 }
+        );
+
+        expect(result.success).toBe(false);
+        expect(result.error?.kind).toBe('runtime');
+      });
+    });
+
+    describe('prototype pollution', () => {
+      it('should not allow changing built-in prototypes', async () => {
+        const code = `
+          const k = '__pro' + 'to__';
+          const proto = ({})[k];
+          const errors = [];
+          try { proto.polluted = true; } catch (error) { errors.push(error.name); }
+          try { Array.prototype.push = null; } catch (error) { errors.push(error.name); }
+          return [({}).polluted, typeof [].push, errors];
+        `;
+
+        const result = await executeTools(code, escapeTools);
+
+        expect(result.value).toEqual([undefined, 'function', ['TypeError', 'TypeError']]);
+      });
+
+      it('should still allow overriding inherited properties on objects', async () => {
+        const code = `
+          const error = new Error('Not found');
+          error.name = 'NotFoundError';
+          const point = { x: 1 };
+          point.toString = () => 'Point(1)';
+          return [error.name, String(point), new Error('Other').name, String({})];
+        `;
+
+        const result = await executeTools(code, escapeTools);
+
+        expect(result.value).toEqual(['NotFoundError', 'Point(1)', 'Error', '[object Object]']);
+      });
+
+      it('should not allow overriding Error.prepareStackTrace', async () => {
+        const code = `
+          try { Error.prepareStackTrace = () => 'hijacked'; } catch {}
+          return typeof Error.prepareStackTrace;
+        `;
+
+        const result = await executeTools(code, escapeTools);
+
+        expect(result.value).toBe('undefined');
+      });
+
+      it('should not treat a "__proto__" key in a tool result as a prototype', async () => {
+        const tools = {
+          getData: {
+            execute: async () => JSON.parse('{"__proto__": {"isAdmin": true}}')
+          }
+        };
+
+        const result = await executeTools(
+          `const data = await tools.getData(); return data.isAdmin;`,
+          tools
+        );
+
+        expect(result.value).toBeUndefined();
+      });
+    });
+
+    describe('console inspection', () => {
+      it('should not call custom inspect functions', async () => {
+        const code = `
+          let called = false;
+          const value = {
+            [Symbol.for('nodejs.util.inspect.custom')]: () => {
+              called = true;
+              return 'hijacked';
+            }
+          };
+          console.log(value);
+          return called;
+        `;
+
+        const result = await executeTools(code, escapeTools);
+
+        expect(result.value).toBe(false);
+        expect(result.logs[0].message).not.toContain('hijacked');
+      });
+    });
+
+    describe('values crossing the boundary', () => {
+      it('should describe functions in tool results without their source', async () => {
+        const tools = {
+          getConfig: { execute: async () => ({ a: 1, fn: () => 'secret source' }) }
+        };
+
+        const result = await executeTools(`return await tools.getConfig();`, tools);
+
+        expect(result.success).toBe(true);
+        expect(result.value).toEqual({ a: 1, fn: '[Function: fn]' });
+        expect(result.output).not.toContain('secret source');
+      });
+
+      it('should keep tool results usable after copying them into the sandbox', async () => {
+        const code = `
+          const rich = await tools.getRich();
+          return {
+            tags: [...rich.tags],
+            score: rich.scores.get('a'),
+            year: rich.createdAt.getUTCFullYear(),
+            error: rich.error instanceof Error && rich.error.message
+          };
+        `;
+
+        const result = await executeTools(code, escapeTools);
+
+        expect(result.value).toEqual({
+          tags: ['a', 'b'],
+          score: 1,
+          year: 1970,
+          error: 'Stored error'
+        });
+      });
+
+      it('should rethrow tool errors as sandbox errors', async () => {
+        const code = `
+          try {
+            await tools.fail();
+          } catch (error) {
+            return [error instanceof Error, error.message];
+          }
+        `;
+
+        const result = await executeTools(code, escapeTools);
+
+        expect(result.value).toEqual([true, 'Tool failed']);
+      });
+    });
+  });
+
+  describe('session state', () => {
+    const recordTools = {
+      listRecords: {
+        execute: vi.fn(async () => [
+          { id: 1, status: 'open' },
+          { id: 2, status: 'closed' },
+          { id: 3, status: 'open' }
+        ])
+      }
+    };
+
+    it('should keep state across executions', async () => {
+      const session = createSession();
+
+      await executeTools(`state.records = await tools.listRecords();`, recordTools, { session });
+      const result = await executeTools(
+        `return state.records.filter((record) => record.status === 'open').map((record) => record.id);`,
+        recordTools,
+        { session }
+      );
+
+      expect(result.value).toEqual([1, 3]);
+      expect(session.getState()).toEqual({ records: expect.any(Array) });
+    });
+
+    it('should keep the state when it is reassigned', async () => {
+      const session = createSession();
+
+      await executeTools(`state = { count: 1, seen: new Set([1]) };`, recordTools, { session });
+      const result = await executeTools(
+        `state.count++; return [state.count, state.seen.has(1)];`,
+        recordTools,
+        { session }
+      );
+
+      expect(result.value).toEqual([2, true]);
+    });
+
+    it('should not save the state when the execution fails', async () => {
+      const session = createSession({ state: { count: 1 } });
+
+      const result = await executeTools(
+        `state.count = 2; throw new Error('Failed');`,
+        recordTools,
+        { session }
+      );
+
+      expect(result.success).toBe(false);
+      expect(session.getState()).toEqual({ count: 1 });
+    });
+
+    it('should fail when the state exceeds the size limit', async () => {
+      const session = createSession({ maxStateSize: 1000 });
+
+      const result = await executeTools(`state.blob = 'x'.repeat(5000);`, recordTools, { session });
+
+      expect(result.error?.kind).toBe('limit');
+      expect(result.error?.name).toBe('SessionStateLimitError');
+      expect(result.output).toContain('Session state size limit exceeded');
+      expect(session.getState()).toEqual({});
+    });
+
+    it('should fail when the state holds values that can not be cloned', async () => {
+      const session = createSession();
+
+      const result = await executeTools(`state.format = (value) => value;`, recordTools, { session });
+
+      expect(result.success).toBe(false);
+      expect(result.output).toContain('The session state can only hold cloneable values');
+      expect(result.output).not.toContain('__guard');
+    });
+
+    it('should allow locals named state to shadow the session state', async () => {
+      const session = createSession({ state: { count: 1 } });
+
+      const result = await executeTools(`const state = 'local'; return state;`, recordTools, {
+        session
+      });
+
+      expect(result.value).toBe('local');
+      expect(session.getState()).toEqual({ count: 1 });
+    });
+
+    it('should not expose state without a session', async () => {
+      const result = await executeTools(`return state;`, recordTools);
+
+      expect(result.error?.kind).toBe('validation');
+      expect(result.output).toContain('Unknown global: state');
+    });
+  });
+
+  describe('result size limits', () => {
+    const largeTools = {
+      listOrders: {
+        execute: async () =>
+          Array.from({ length: 5000 }, (_, index) => ({
+            id: index + 1,
+            customer: { name: `Customer ${index + 1}`, email: `customer${index + 1}@example.com` },
+            notes: 'x'.repeat(500)
+          }))
+      }
+    };
+
+    it('should show a preview of values larger than the output limit', async () => {
+      const result = await executeTools(`return await tools.listOrders();`, largeTools, {
+        maxOutputSize: 2000
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.value).toHaveLength(5000);
+      expect(result.output.length).toBeLessThan(2500);
+      expect(result.output).toContain('so only a preview is shown');
+      expect(result.output).toContain('more items');
+      expect(result.output).toContain('more characters');
+    });
+
+    it('should summarize long strings', async () => {
+      const result = await executeTools(`return 'abc'.repeat(1000);`, largeTools, {
+        maxOutputSize: 100
+      });
+
+      expect(result.output).toContain(`${'abc'.repeat(33)}a... (2900 more characters)`);
+    });
+
+    it('should show the keys of objects beyond the preview depth', async () => {
+      const code = `
+        const value = {};
+        for (let i = 0; i < 100; i++) {
+          value['key' + i] = { nested: { deeper: { deepest: { id: i, text: 'x'.repeat(100) } } } };
+        }
+        return value;
+      `;
+
+      const result = await executeTools(code, largeTools, { maxOutputSize: 500 });
+
+      expect(result.output).toContain('more keys: ');
+      expect(result.output).toContain('[Object with keys: ');
+    });
+
+    it('should not change values within the output limit', async () => {
+      const result = await executeTools(`return { total: 2 };`, largeTools, {
+        maxOutputSize: 100,
+        results: createResultStore()
+      });
+
+      expect(result.output).toBe('{\n  "total": 2\n}');
+      expect(result.resultHandle).toBeUndefined();
+    });
+
+    it('should store truncated values for later executions', async () => {
+      const results = createResultStore();
+      const options = { maxOutputSize: 2000, results };
+
+      const first = await executeTools(`return await tools.listOrders();`, largeTools, options);
+
+      expect(first.resultHandle).toMatch(/^result_/);
+      expect(first.output).toContain(`await tools.$results.get("${first.resultHandle}")`);
+
+      const second = await executeTools(
+        `const orders = await tools.$results.get(${JSON.stringify(first.resultHandle)});
+        return [orders.length, orders[4999].customer.name];`,
+        largeTools,
+        options
+      );
+
+      expect(second.value).toEqual([5000, 'Customer 5000']);
+      expect(second.calls).toHaveLength(0);
+    });
+
+    it('should throw to the code when a handle is unknown', async () => {
+      const result = await executeTools(
+        `try {
+          await tools.$results.get('result_missing');
+        } catch (error) {
+          return error.name + ': ' + error.message;
+        }`,
+        largeTools,
+        { results: createResultStore() }
+      );
+
+      expect(result.output).toBe(
+        'ResultNotFoundError: No stored result for "result_missing". Only the most recent truncated results are kept'
+      );
+    });
+
+    it('should only keep the most recent results', () => {
+      const results = createResultStore({ maxResults: 2 });
+
+      const first = results.add(1);
+      const second = results.add(2);
+      const third = results.add(3);
+
+      expect(() => results.get(first)).toThrow('No stored result');
+      expect([results.get(second), results.get(third)]).toEqual([2, 3]);
+    });
+  });
+
+  describe('return value serialization', () => {
+    it('should show Map and Set contents', async () => {
+      const result = await executeTools(
+        `return { counts: new Map([['open', 2]]), ids: new Set([1, 2]) };`,
+        mockTools
+      );
+
+      expect(JSON.parse(result.output)).toEqual({ counts: { open: 2 }, ids: [1, 2] });
+    });
+
+    it('should show BigInts and cycles instead of failing', async () => {
+      const result = await executeTools(
+        `const node = { total: 2n ** 64n }; node.self = node; return node;`,
+        mockTools
+      );
+
+      expect(result.success).toBe(true);
+      expect(JSON.parse(result.output)).toEqual({ total: '18446744073709551616n', self: '[Circular]' });
+    });
+
+    it('should show the name, message and properties of returned errors', async () => {
+      const result = await executeTools(
+        `const error = new Error('Not found'); error.name = 'NotFoundError'; error.status = 404; return error;`,
+        mockTools
+      );
+
+      expect(JSON.parse(result.output)).toEqual({ name: 'NotFoundError', message: 'Not found', status: 404 });
+    });
+
+    it('should describe values that can not leave the sandbox', async () => {
+      const result = await executeTools(
+        `return { format: function format() {}, pending: Promise.resolve(1) };`,
+        mockTools
+      );
+
+      expect(result.value).toEqual({ format: '[Function: format]', pending: '[Promise]' });
+    });
+
+    it('should describe a missing return value', async () => {
+      const result = await executeTools(`await tools.greet('World');`, mockTools);
+
+      expect(result.output).toBe('No value was returned');
+    });
+
+    it('should write values as YAML', async () => {
+      const result = await executeTools(`return { users: [{ id: 1, name: 'Ada' }] };`, mockTools, {
+        outputFormat: 'yaml'
+      });
+
+      expect(result.output).toBe('users:\n  - id: 1\n    name: Ada');
+    });
+  });
+
+  describe('TypeScript input', () => {
+    const typedTools = {
+      getUser: {
+        inputSchema: z.object({ id: z.number() }),
+        execute: vi.fn(async ({ id }: { id: number }) => ({ id, name: 'Ada' }))
+      }
+    };
+
+    it('should reject type annotations by default', async () => {
+      const result = await executeTools(`const id: number = 1;\nreturn id;`, typedTools);
+
+      expect(result.error?.kind).toBe('validation');
+      expect(result.output).toContain('Failed to parse code');
+    });
+
+    it('should run TypeScript with its types removed', async () => {
+      const code = `type User = { id: number; name: string };
+const user: User = await tools.getUser({ id: 1 });
+return user.name as string;`;
+
+      const result = await executeTools(code, typedTools, { typescript: true });
+
+      expect(result.output).toBe('Ada');
+    });
+
+    it('should keep the line numbers of validation errors', async () => {
+      const code = `interface User {
+  id: number;
+}
+return process.env;`;
+
+      const result = await executeTools(code, typedTools, { typescript: true });
+
+      expect(result.error?.details).toEqual(['Forbidden identifier: process (line 4, column 8)']);
+    });
+
+    it('should reject wrong tool inputs before any tool runs in strict mode', async () => {
+      typedTools.getUser.execute.mockClear();
+
+      const result = await executeTools(
+        `await tools.getUser({ id: 1 });\nreturn await tools.getUser({ userId: 1 });`,
+        typedTools,
+        { typescript: 'strict' }
+      );
+
+      expect(result.error?.kind).toBe('validation');
+      expect(result.output).toContain('Code validation failed');
+      expect(result.output).toContain('TS2353');
+      expect(result.output).toContain('(line 2, column 30)');
+      expect(typedTools.getUser.execute).not.toHaveBeenCalled();
+    }, 20_000);
+  });
+
+  describe('plan mode', () => {
+    const createPlanTools = () => ({
+      getCustomer: {
+        inputSchema: z.object({ id: z.number() }),
+        execute: vi.fn(async ({ id }: { id: number }) => ({ id, email: 'ada@example.com' }))
+      },
+      sendEmail: {
+        sideEffects: true,
+        inputSchema: z.object({ to: z.string() }),
+        outputSchema: z.object({ messageId: z.string(), status: z.enum(['queued', 'sent']) }),
+        execute: vi.fn(async () => ({ messageId: 'real', status: 'sent' }))
+      },
+      chargeCard: {
+        sideEffects: true,
+        needsApproval: true,
+        inputSchema: z.object({ amount: z.number() }),
+        execute: vi.fn(async () => 'charged')
+      }
+    });
+
+    const code = `
+      const customer = await tools.getCustomer({ id: 1 });
+      const email = await tools.sendEmail({ to: customer.email });
+      await tools.chargeCard({ amount: 10 });
+      return email.status;
+    `;
+
+    it('should run read-only tools and stub side-effecting ones', async () => {
+      const planTools = createPlanTools();
+
+      const result = await executeTools(code, planTools, { plan: true });
+
+      expect(result.success).toBe(true);
+      expect(result.value).toBe('queued');
+      expect(planTools.getCustomer.execute).toHaveBeenCalledTimes(1);
+      expect(planTools.sendEmail.execute).not.toHaveBeenCalled();
+      expect(planTools.chargeCard.execute).not.toHaveBeenCalled();
+      expect(result.plan).toEqual([
+        { tool: 'sendEmail', input: { to: 'ada@example.com' }, output: { messageId: '', status: 'queued' } },
+        { tool: 'chargeCard', input: { amount: 10 }, output: undefined },
+      ]);
+      expect(result.calls.map((call) => call.planned)).toEqual([undefined, true, true]);
+    });
+
+    it('should return fixtures from the stubs', async () => {
+      const result = await executeTools(code, createPlanTools(), {
+        plan: {
+          fixtures: {
+            sendEmail: { messageId: 'm-1', status: 'sent' },
+            chargeCard: ({ amount }: { amount: number }) => `would charge ${amount}`,
+          },
+        },
+      });
+
+      expect(result.value).toBe('sent');
+      expect(result.plan?.[1].output).toBe('would charge 10');
+    });
+
+    it('should list the planned calls in the output', async () => {
+      const result = await executeTools(code, createPlanTools(), { plan: true });
+
+      expect(result.output).toBe(
+        'queued\n\nPlanned tool calls (not run, their results are placeholders):\n' +
+        '1. sendEmail({"to":"ada@example.com"})\n' +
+        '2. chargeCard({"amount":10})'
+      );
+    });
+
+    it('should run every tool without plan mode', async () => {
+      const planTools = createPlanTools();
+
+      const result = await executeTools(code, planTools, {
+        onBeforeToolCall: () => ({ type: 'approve' }),
+      });
+
+      expect(result.value).toBe('sent');
+      expect(result.plan).toBeUndefined();
+      expect(planTools.chargeCard.execute).toHaveBeenCalledTimes(1);
+    });
+
+    it('should still validate the input of stubbed tools', async () => {
+      const input = `const amount = '10';\nawait tools.chargeCard({ amount });`;
+
+      const result = await executeTools(input, createPlanTools(), { plan: true });
+
+      expect(result.error?.name).toBe('ToolInputError');
+      expect(result.plan).toEqual([]);
+    });
+
+    it('should not save the session state', async () => {
+      const session = createSession({ state: { sent: 0 } });
+
+      await executeTools(`state.sent++;\nawait tools.sendEmail({ to: 'a' });`, createPlanTools(), {
+        session,
+        plan: true,
+      });
+
+      expect(session.getState()).toEqual({ sent: 0 });
+    });
+  });
+
+  describe('cancellation and call options', () => {
+    it('should pass call options with a derived toolCallId to every tool', async () => {
+      const execute = vi.fn(async () => 'ok');
+      const controller = new AbortController();
+      const messages = [{ role: 'user', content: 'Hi' }];
+
+      await executeTools(`await tools.ping();\nawait tools.ping('x', { toolCallId: 'forged' });`, { ping: { execute } }, {
+        abortSignal: controller.signal,
+        toolCallId: 'call_1',
+        messages,
+      });
+
+      expect(execute).toHaveBeenCalledTimes(2);
+      const [first, second] = execute.mock.calls.map((call: any[]) => call[1]);
+      expect(first).toEqual({ toolCallId: expect.stringMatching(/^call_1-/), messages, abortSignal: controller.signal });
+      expect(second.toolCallId).toMatch(/^call_1-/);
+      expect(second.toolCallId).not.toBe(first.toolCallId);
+    });
+
+    it('should stop the script and abort in-flight calls when cancelled', async () => {
+      const controller = new AbortController();
+      let signalSeen: AbortSignal | undefined;
+      const after = vi.fn(async () => 'after');
+      const cancelTools = {
+        slow: {
+          execute: (_: unknown, { abortSignal }: { abortSignal?: AbortSignal }) => {
+            signalSeen = abortSignal;
+            setTimeout(() => controller.abort(), 20);
+            return new Promise((resolve) => setTimeout(resolve, 2_000));
+          }
+        },
+        after: { execute: after }
+      };
+
+      const result = await executeTools(`await tools.slow();\nawait tools.after();`, cancelTools, {
+        abortSignal: controller.signal,
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.kind).toBe('cancelled');
+      expect(result.output).toBe('Error: Execution was cancelled');
+      expect(signalSeen?.aborted).toBe(true);
+      expect(after).not.toHaveBeenCalled();
+    });
+
+    it('should not start when the signal is already aborted', async () => {
+      const execute = vi.fn(async () => 'ok');
+      const controller = new AbortController();
+      controller.abort();
+
+      const result = await executeTools('return await tools.ping();', { ping: { execute } }, {
+        abortSignal: controller.signal,
+      });
+
+      expect(result.error?.kind).toBe('cancelled');
+      expect(execute).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('namespaces', () => {
+    const registry = {
+      github: {
+        createIssue: {
+          inputSchema: z.object({ title: z.string() }),
+          execute: async ({ title }: { title: string }) => ({ id: 1, title }),
+        },
+        repos: {
+          list: { execute: async () => ['api', 'web'] },
+        },
+      },
+      ping: { execute: async () => 'pong' },
+    };
+
+    it('should call tools in nested namespaces', async () => {
+      const code = `
+        const issue = await tools.github.createIssue({ title: 'Bug' });
+        const repos = await tools.github.repos.list.execute();
+        return { issue, repos, pong: await tools.ping() };
+      `;
+
+      const result = await executeTools(code, registry);
+
+      expect(result.success).toBe(true);
+      expect(result.value).toEqual({ issue: { id: 1, title: 'Bug' }, repos: ['api', 'web'], pong: 'pong' });
+      expect(result.calls.map((call) => call.tool)).toEqual(['github.createIssue', 'github.repos.list', 'ping']);
+    });
+
+    it('should expose namespaces as plain objects', async () => {
+      const result = await executeTools(`return Object.keys(tools.github).sort();`, registry);
+
+      expect(result.value).toEqual(['createIssue', 'repos']);
+    });
+
+    it('should report unknown tools in a namespace before running', async () => {
+      const result = await executeTools(`return await tools.github.crateIssue({ title: 'Bug' });`, registry);
+
+      expect(result.error?.kind).toBe('validation');
+      expect(result.error?.details?.[0]).toContain('Did you mean tools.github.createIssue?');
+    });
+
+    it('should apply limits by the full tool name', async () => {
+      const code = `
+        const title = 'Bug';
+        await tools.github.createIssue({ title });
+        await tools.github.createIssue({ title });
+      `;
+
+      const result = await executeTools(code, registry, {
+        limits: { maxCallsPerTool: { 'github.createIssue': 1 } },
+      });
+
+      expect(result.error?.name).toBe('ToolCallLimitError');
+    });
+  });
 });
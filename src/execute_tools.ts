@@ -1,50 +1,573 @@
+import { randomUUID } from "crypto";
+import { join } from "path";
+import { Worker } from "worker_threads";
 import { validateCode } from "./validate_code";
+import { checkToolCalls } from "./check_tool_calls";
+import { GuardSite, InsertedText, instrumentCode } from "./instrument_code";
+import { formatCodeFrame, mapStack, parseLocation } from "./code_frame";
+import { compileTypeScript, TypeScriptMode } from "./typescript";
+import { toCloneable } from "./cloneable";
+import {
+  IterationLimitError,
+  SandboxError,
+  SessionStateLimitError,
+  ToolCallDeniedError,
+  ToolCallCounts,
+  ToolCallLimitError,
+  ToolInputError,
+} from "./errors";
+import { DEFAULT_MAX_OUTPUT_SIZE, formatOutput } from "./format_output";
+import { OutputFormat, serializeValue } from "./serialize_value";
+import { createPlaceholder } from "./placeholder_value";
+import { ResultStore } from "./result_store";
+import { getInputSchema, normalizeSchema } from "./tool_schema";
+import { Session } from "./session";
+import { flattenTools, ToolRegistry } from "./tool_registry";
+import {
+  ConsoleEntry,
+  ExecutionErrorKind,
+  ExecutionHooks,
+  ExecutionResult,
+  PlanOptions,
+  ToolCallLimits,
+  ToolCallOptions,
+  ToolCallPolicy,
+  ToolCallTrace,
+} from "./types";
+
+export type ExecuteToolsOptions = ExecutionHooks & {
+  /** Wall-clock limit for a single execution in milliseconds (default 30000) */
+  timeout?: number;
+  /** Heap limit for the sandbox worker in megabytes (default 128) */
+  memoryLimit?: number;
+  /** Maximum number of characters of console output to keep (default 10000) */
+  maxConsoleOutput?: number;
+  /** Approves, denies or rewrites tool calls before they run */
+  onBeforeToolCall?: ToolCallPolicy;
+  /** Aborts the execution when the code makes too many tool calls */
+  limits?: ToolCallLimits;
+  /** Maximum iterations of one run of any loop, counted again each time the loop is entered (default 1000000) */
+  maxIterations?: number;
+  /** Maximum depth of nested function calls, also across awaits (default 1000) */
+  maxCallDepth?: number;
+  /** Keeps a `state` object across executions, see createSession */
+  session?: Session;
+  /** Characters of the returned value given to the model before it's truncated to a preview (default 20000) */
+  maxOutputSize?: number;
+  /** Stores values too large for the output, so later executions can read them with tools.$results.get() */
+  results?: ResultStore;
+  /** Write returned values as JSON, or as YAML to save tokens (default "json") */
+  outputFormat?: OutputFormat;
+  /**
+   * Accept TypeScript code, with its types removed before validation. With
+   * "strict" the code is also type-checked against the tool input schemas
+   */
+  typescript?: TypeScriptMode;
+  /**
+   * Preview what the code would do: tools flagged with sideEffects are
+   * replaced by stubs, and their calls are returned as the plan
+   */
+  plan?: boolean | PlanOptions;
+  /** Cancels the execution, and is passed on to every tool call */
+  abortSignal?: AbortSignal;
+  /** Id of the execute_tools call, inner calls get ids derived from it */
+  toolCallId?: string;
+  /** The conversation messages, passed on to every tool call */
+  messages?: unknown[];
+};
+
+// A file of its own, because toolchains that rewrite functions (tsx, coverage) can't reach it
+const SANDBOX_WORKER_PATH = join(__dirname, "sandbox_worker.js");
+
+const DEFAULT_TIMEOUT = 30_000;
+const DEFAULT_MEMORY_LIMIT = 128;
+const DEFAULT_MAX_CONSOLE_OUTPUT = 10_000;
+const DEFAULT_MAX_ITERATIONS = 1_000_000;
+const DEFAULT_MAX_CALL_DEPTH = 1000;
+
+export async function executeTools(
+  code: string,
+  registry: ToolRegistry,
+  options: ExecuteToolsOptions = {}
+): Promise<ExecutionResult> {
+  // Tools in namespaces are known by their full name, e.g. "github.createIssue"
+  const tools = flattenTools(registry);
+  const executionId = randomUUID();
+  const startedAt = Date.now();
+  const calls: ToolCallTrace[] = [];
+  const logs: ConsoleEntry[] = [];
+
+  const finish = (
+    partialResult: Omit<ExecutionResult, "output" | "logs" | "durationMs">
+  ) => {
+    // The calls the code intends to make, so the host can approve them before running it for real
+    const plan = options.plan
+      ? calls
+          .filter((call) => call.planned)
+          .map(({ tool, input, output }) => ({ tool, input, output }))
+      : undefined;
+
+    const result = {
+      ...partialResult,
+      plan,
+      logs,
+      output: formatOutput(
+        { ...partialResult, plan, logs },
+        {
+          maxOutputSize: options.maxOutputSize,
+          outputFormat: options.outputFormat,
+        }
+      ),
+      durationMs: Date.now() - startedAt,
+    };
+    runHook(options.onExecutionEnd, { executionId, code, result });
+
+    return result;
+  };
+
+  runHook(options.onExecutionStart, { executionId, code, startedAt });
+
+  const globals = options.session ? ["state"] : [];
+  const failValidation = (errors: string[]) => {
+    runHook(options.onValidationFailed, { executionId, code, errors });
+
+    const location = parseLocation(errors[0]);
+    return finish({
+      success: false,
+      calls,
+      error: {
+        kind: "validation",
+        name: "ValidationError",
+        message: "Code validation failed",
+        details: errors,
+        location,
+        frame: location && formatCodeFrame(code, location),
+      },
+    });
+  };
+
+  let inserted: InsertedText[] = [];
 
-export async function executeTools(code: string, tools: Record<string, any>) {
   try {
+    // TypeScript is turned into JavaScript with the same line and column numbers
+    let source = code;
+    if (options.typescript) {
+      const compiled = await compileTypeScript(code, tools, {
+        typeCheck: options.typescript === "strict",
+        globals,
+      });
+      if (compiled.errors.length) {
+        return failValidation(compiled.errors);
+      }
+      source = compiled.code;
+    }
+
     // Validate the code before execution
-    const validation = validateCode(code);
+    const validation = validateCode(source, { globals });
     if (!validation.isValid) {
-      return {
-        output: `Code validation failed:\n${validation.errors.join("\n")}`,
-      };
+      return failValidation(validation.errors);
     }
 
-    // Wrap tools so they can be called directly as functions
-    // IMPORTANT: We wrap in anonymous functions to prevent toString() from exposing implementation
-    const wrappedTools: Record<string, any> = {};
-    for (const [name, tool] of Object.entries(tools)) {
-      // Create a wrapper function that hides the original implementation
-      const wrapper = async (...args: any[]) => {
-        return await tool.execute(...args);
-      };
-
-      // Make the tool callable directly
-      wrappedTools[name] = wrapper;
-
-      // Also keep the original structure for tools.name.execute() pattern
-      wrappedTools[name].execute = wrapper;
+    // Unknown tools and wrong literal inputs fail before any tool call runs
+    const toolErrors = checkToolCalls(source, tools);
+    if (toolErrors.length) {
+      return failValidation(toolErrors);
     }
 
-    // Create the async function with tools in scope
-    const asyncFunc = new Function(
-      "tools",
-      `return (async () => {
-${code}
-      })();`
+    // Execute the code in an isolated worker, so runaway code can not block or crash the host
+    const instrumented = instrumentCode(source);
+    inserted = instrumented.inserted;
+    const { value, state } = await runInSandbox(
+      instrumented,
+      tools,
+      { executionId, calls, logs },
+      options
     );
 
-    // Execute the function with the wrapped tools context
-    const result = await asyncFunc(wrappedTools);
+    // The state is only saved when the execution succeeds, and not by previews
+    if (options.session && !options.plan) {
+      options.session.setState(state);
+    }
 
-    // Return the result as a string
-    const output =
-      typeof result === "object"
-        ? JSON.stringify(result, null, 2)
-        : String(result);
+    // Values too large for the output are kept, so the model can drill into them later
+    const maxOutputSize = options.maxOutputSize ?? DEFAULT_MAX_OUTPUT_SIZE;
+    const resultHandle =
+      options.results &&
+      serializeValue(value, options.outputFormat).length > maxOutputSize
+        ? options.results.add(value)
+        : undefined;
 
-    return { output };
+    return finish({ success: true, value, calls, resultHandle });
   } catch (error: any) {
-    return { output: `Error: ${error.message}` };
+    // Stacks of errors thrown by the code point into the instrumented, wrapped code
+    const { stack, location } =
+      typeof error?.stack === "string"
+        ? mapStack(error.stack, inserted)
+        : { stack: undefined, location: undefined };
+
+    return finish({
+      success: false,
+      calls,
+      error: {
+        kind: getErrorKind(error),
+        name: error?.name || "Error",
+        message: error?.message ?? String(error),
+        stack,
+        location,
+        frame: location && formatCodeFrame(code, location),
+      },
+    });
+  }
+}
+
+// Hooks only observe the execution, so they are not awaited and their errors are ignored
+function runHook<T>(
+  hook: ((event: T) => void | Promise<void>) | undefined,
+  event: T
+) {
+  if (!hook) return;
+
+  try {
+    Promise.resolve(hook(event)).catch(() => {});
+  } catch {
+    // Ignore
+  }
+}
+
+function getErrorKind(error: unknown): ExecutionErrorKind {
+  if (error instanceof SandboxError) return error.kind;
+  if (
+    error instanceof ToolCallLimitError ||
+    error instanceof IterationLimitError ||
+    error instanceof SessionStateLimitError
+  ) {
+    return "limit";
+  }
+  return "runtime";
+}
+
+function runInSandbox(
+  { code, sites }: { code: string; sites: GuardSite[] },
+  tools: Record<string, any>,
+  {
+    executionId,
+    calls,
+    logs,
+  }: { executionId: string; calls: ToolCallTrace[]; logs: ConsoleEntry[] },
+  options: ExecuteToolsOptions
+) {
+  const timeout = options.timeout ?? DEFAULT_TIMEOUT;
+  const memoryLimit = options.memoryLimit ?? DEFAULT_MEMORY_LIMIT;
+  const maxIterations = options.maxIterations ?? DEFAULT_MAX_ITERATIONS;
+  const maxCallDepth = options.maxCallDepth ?? DEFAULT_MAX_CALL_DEPTH;
+
+  return new Promise<{ value: unknown; state?: any }>((resolve, reject) => {
+    const { abortSignal } = options;
+    if (abortSignal?.aborted) {
+      reject(new SandboxError("cancelled", "Execution was cancelled"));
+      return;
+    }
+
+    const worker = new Worker(SANDBOX_WORKER_PATH, {
+      workerData: {
+        code,
+        toolNames: Object.keys(tools),
+        maxConsoleOutput:
+          options.maxConsoleOutput ?? DEFAULT_MAX_CONSOLE_OUTPUT,
+        maxIterations,
+        maxCallDepth,
+        state: options.session?.getState(),
+      },
+      resourceLimits: { maxOldGenerationSizeMb: memoryLimit },
+    });
+
+    let settled = false;
+    const settle = (callback: () => void) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      abortSignal?.removeEventListener("abort", cancel);
+      worker.terminate();
+      callback();
+    };
+
+    const counts: ToolCallCounts = { total: 0, inFlight: 0, byTool: {} };
+
+    const timer = setTimeout(() => {
+      settle(() =>
+        reject(
+          new SandboxError("timeout", `Execution timed out after ${timeout}ms`)
+        )
+      );
+    }, timeout);
+
+    // In-flight tools get the signal themselves, the script is stopped right away
+    const cancel = () => {
+      settle(() =>
+        reject(new SandboxError("cancelled", "Execution was cancelled"))
+      );
+    };
+    abortSignal?.addEventListener("abort", cancel, { once: true });
+
+    worker.on("message", async (message: any) => {
+      switch (message.type) {
+        case "call": {
+          counts.total++;
+          counts.inFlight++;
+          counts.byTool[message.name] = (counts.byTool[message.name] || 0) + 1;
+
+          // Runaway scripts are stopped before the call reaches the tool
+          const exceededLimit = checkLimits(
+            message.name,
+            counts,
+            options.limits
+          );
+          if (exceededLimit) {
+            const snapshot = { ...counts, byTool: { ...counts.byTool } };
+            settle(() =>
+              reject(new ToolCallLimitError(exceededLimit, snapshot))
+            );
+            break;
+          }
+
+          // Run the real tool on the host and send the result back to the sandbox
+          const call: ToolCallTrace = {
+            tool: message.name,
+            input: message.args[0],
+            durationMs: 0,
+          };
+          calls.push(call);
+          const callStartedAt = Date.now();
+          const callEvent = {
+            executionId,
+            callId: message.id,
+            tool: message.name,
+            startedAt: callStartedAt,
+          };
+          runHook(options.onToolCallStart, { ...callEvent, input: call.input });
+
+          try {
+            const value = await callTool(
+              message.name,
+              tools[message.name],
+              message.args[0],
+              call,
+              {
+                toolCallId: `${options.toolCallId ?? executionId}-${message.id}`,
+                messages: options.messages ?? [],
+                abortSignal,
+              },
+              options
+            );
+            call.output = value;
+            call.durationMs = Date.now() - callStartedAt;
+            if (!settled) {
+              // Functions in the output would fail the clone, and quote the tool's source
+              worker.postMessage({
+                type: "result",
+                id: message.id,
+                value: toCloneable(value, { keepErrors: true }),
+              });
+            }
+          } catch (error: any) {
+            call.error = {
+              name: error?.name || "Error",
+              message: error?.message ?? String(error),
+            };
+            call.durationMs = Date.now() - callStartedAt;
+            if (!settled) {
+              worker.postMessage({
+                type: "error",
+                id: message.id,
+                error: call.error,
+              });
+            }
+          } finally {
+            counts.inFlight--;
+            runHook(options.onToolCallEnd, { ...callEvent, ...call });
+          }
+          break;
+        }
+        case "getResult":
+          try {
+            if (!options.results) {
+              throw new Error("Stored results are not available");
+            }
+            worker.postMessage({
+              type: "result",
+              id: message.id,
+              value: toCloneable(options.results.get(message.handle), {
+                keepErrors: true,
+              }),
+            });
+          } catch (error: any) {
+            worker.postMessage({
+              type: "error",
+              id: message.id,
+              error: { name: error.name, message: error.message },
+            });
+          }
+          break;
+        case "console": {
+          const entry = { level: message.level, message: message.message };
+          logs.push(entry);
+          runHook(options.onConsole, { executionId, ...entry });
+          break;
+        }
+        case "limit": {
+          const site = sites[message.site];
+          const limit = site.kind === "function" ? maxCallDepth : maxIterations;
+          settle(() => reject(new IterationLimitError(site, limit)));
+          break;
+        }
+        case "done":
+          settle(() => resolve({ value: message.value, state: message.state }));
+          break;
+        case "error":
+          settle(() => reject(message.error));
+          break;
+      }
+    });
+
+    worker.on("error", (error: any) => {
+      settle(() =>
+        reject(
+          error.code === "ERR_WORKER_OUT_OF_MEMORY"
+            ? new SandboxError(
+                "memory",
+                `Execution exceeded the memory limit of ${memoryLimit}MB`
+              )
+            : error
+        )
+      );
+    });
+
+    worker.on("exit", (exitCode) => {
+      settle(() =>
+        reject(
+          new SandboxError(
+            "crash",
+            `Sandbox exited unexpectedly with code ${exitCode}`
+          )
+        )
+      );
+    });
+  });
+}
+
+// Returns a description of the first limit the counts exceed
+function checkLimits(
+  name: string,
+  counts: ToolCallCounts,
+  limits: ToolCallLimits = {}
+) {
+  if (limits.maxToolCalls !== undefined && counts.total > limits.maxToolCalls) {
+    return `maxToolCalls is ${limits.maxToolCalls}`;
+  }
+
+  const maxCallsForTool =
+    typeof limits.maxCallsPerTool === "number"
+      ? limits.maxCallsPerTool
+      : limits.maxCallsPerTool?.[name];
+  if (maxCallsForTool !== undefined && counts.byTool[name] > maxCallsForTool) {
+    return `maxCallsPerTool for "${name}" is ${maxCallsForTool}`;
+  }
+
+  if (
+    limits.maxConcurrentCalls !== undefined &&
+    counts.inFlight > limits.maxConcurrentCalls
+  ) {
+    return `maxConcurrentCalls is ${limits.maxConcurrentCalls}`;
   }
 }
+
+// Only the first argument of a call in the code is used, the second is the call options
+async function callTool(
+  name: string,
+  tool: any,
+  rawInput: unknown,
+  call: ToolCallTrace,
+  callOptions: ToolCallOptions,
+  options: ExecuteToolsOptions
+) {
+  let input = await parseToolInput(name, tool, rawInput);
+
+  // Stubs don't change anything, so they need no approval
+  if (options.plan && tool.sideEffects) {
+    call.planned = true;
+    call.input = input;
+    return callStub(name, tool, input, options.plan);
+  }
+
+  // Like tools the client runs, which the code can only discover
+  if (typeof tool.execute !== "function") {
+    throw new Error(`${name} has no execute function`);
+  }
+
+  const needsApproval =
+    typeof tool.needsApproval === "function"
+      ? Boolean(await tool.needsApproval(input))
+      : Boolean(tool.needsApproval);
+
+  if (needsApproval || options.onBeforeToolCall) {
+    const decision = options.onBeforeToolCall
+      ? await options.onBeforeToolCall({ tool: name, input, needsApproval })
+      : undefined;
+
+    if (decision?.type === "deny") {
+      call.approval = "denied";
+      throw new ToolCallDeniedError(name, decision.reason || "Not approved");
+    }
+
+    if (!decision && needsApproval) {
+      call.approval = "denied";
+      throw new ToolCallDeniedError(name, "The tool requires approval");
+    }
+
+    if (decision?.type === "rewrite") {
+      call.approval = "rewritten";
+      input = await parseToolInput(name, tool, decision.input);
+      call.input = input;
+    } else {
+      call.approval = "approved";
+    }
+  }
+
+  return tool.execute(input, callOptions);
+}
+
+function callStub(
+  name: string,
+  tool: any,
+  input: unknown,
+  plan: boolean | PlanOptions
+) {
+  const fixtures = typeof plan === "object" ? plan.fixtures : undefined;
+  if (fixtures && Object.prototype.hasOwnProperty.call(fixtures, name)) {
+    const fixture = fixtures[name];
+    return typeof fixture === "function" ? fixture(input) : fixture;
+  }
+
+  return tool.outputSchema ? createPlaceholder(tool.outputSchema) : undefined;
+}
+
+// Tools can trust their input the same way they do with direct AI SDK tool calls
+async function parseToolInput(name: string, tool: any, input: unknown) {
+  const schema = getInputSchema(tool);
+  if (!schema) {
+    return input;
+  }
+
+  const parsed = await normalizeSchema(schema).validate(input);
+  if (!parsed.success) {
+    throw new ToolInputError(
+      name,
+      parsed.issues.map((issue) => ({
+        path: issue.path.length ? issue.path.join(".") : "(root)",
+        message: issue.message,
+      }))
+    );
+  }
+
+  return parsed.value;
+}
@@ -0,0 +1,192 @@
+import {
+  OutputFormat,
+  serializeValue,
+  toSerializable,
+} from "./serialize_value";
+import { ExecutionResult } from "./types";
+
+export type FormatOutputOptions = {
+  /** Include the tool-call trace and error stacks in the output */
+  verbose?: boolean;
+  /** Characters of the returned value to show before falling back to a preview (default 20000) */
+  maxOutputSize?: number;
+  /** How returned values other than strings are written (default "json") */
+  outputFormat?: OutputFormat;
+};
+
+export const DEFAULT_MAX_OUTPUT_SIZE = 20_000;
+
+type PreviewLevel = {
+  depth: number;
+  items: number;
+  keys: number;
+  characters: number;
+};
+
+// From the most detailed to the most compact preview
+const PREVIEW_LEVELS: PreviewLevel[] = [
+  { depth: 4, items: 10, keys: 20, characters: 200 },
+  { depth: 3, items: 5, keys: 10, characters: 100 },
+  { depth: 2, items: 3, keys: 10, characters: 50 },
+  { depth: 1, items: 1, keys: 5, characters: 20 },
+];
+
+// Turns an execution result into the text the model sees
+export function formatOutput(
+  result: Pick<
+    ExecutionResult,
+    "value" | "error" | "calls" | "logs" | "resultHandle" | "plan"
+  >,
+  options: FormatOutputOptions = {}
+) {
+  let output: string;
+
+  if (result.error?.kind === "validation") {
+    output = `Code validation failed:\n${result.error.details?.join("\n")}`;
+  } else if (result.error) {
+    const { location } = result.error;
+    output = location
+      ? `Error: ${result.error.message} (line ${location.line}, column ${location.column})`
+      : `Error: ${result.error.message}`;
+  } else {
+    output = serializeValue(result.value, options.outputFormat);
+
+    const maxOutputSize = options.maxOutputSize ?? DEFAULT_MAX_OUTPUT_SIZE;
+    if (output.length > maxOutputSize) {
+      output = formatPreview(
+        result.value,
+        output.length,
+        maxOutputSize,
+        result.resultHandle,
+        options.outputFormat
+      );
+    }
+  }
+
+  if (result.error?.frame) {
+    output += `\n\n${result.error.frame}`;
+  }
+
+  if (result.plan) {
+    const lines = result.plan.map(
+      (call, index) =>
+        `${index + 1}. ${call.tool}(${JSON.stringify(call.input)})`
+    );
+    output += result.plan.length
+      ? `\n\nPlanned tool calls (not run, their results are placeholders):\n${lines.join("\n")}`
+      : "\n\nPlanned tool calls: none";
+  }
+
+  // Denials the code caught itself are still reported, so the model knows what didn't run
+  const deniedCalls = result.calls.filter(
+    (call) =>
+      call.approval === "denied" &&
+      call.error?.message !== result.error?.message
+  );
+  if (deniedCalls.length) {
+    const lines = deniedCalls.map((call) => `- ${call.error?.message}`);
+    output += `\n\nDenied tool calls:\n${lines.join("\n")}`;
+  }
+
+  if (result.logs.length) {
+    const lines = result.logs.map((entry) =>
+      entry.level === "warn" || entry.level === "error"
+        ? `[${entry.level}] ${entry.message}`
+        : entry.message
+    );
+    output += `\n\nConsole output:\n${lines.join("\n")}`;
+  }
+
+  if (!options.verbose) {
+    return output;
+  }
+
+  if (result.error?.stack) {
+    output += `\n\n${result.error.stack}`;
+  }
+
+  if (result.calls.length) {
+    const calls = result.calls.map((call, index) => {
+      const status = call.error ? `failed: ${call.error.message}` : "succeeded";
+      return `${index + 1}. ${call.tool}(${JSON.stringify(call.input)}) ${status} in ${call.durationMs}ms`;
+    });
+    output += `\n\nTool calls:\n${calls.join("\n")}`;
+  }
+
+  return output;
+}
+
+// Shows the largest preview of the value that fits the output size
+function formatPreview(
+  value: unknown,
+  size: number,
+  maxOutputSize: number,
+  handle?: string,
+  format?: OutputFormat
+) {
+  const hint = handle
+    ? `The full value is stored as "${handle}", read it in a later execution with: await tools.$results.get("${handle}")`
+    : "Return a smaller part of it";
+  const header = `The result is ${size} characters, more than the limit of ${maxOutputSize}, so only a preview is shown. ${hint}`;
+
+  if (typeof value === "string") {
+    return `${header}\n\n${previewString(value, maxOutputSize)}`;
+  }
+
+  const data = toSerializable(value);
+  for (const level of PREVIEW_LEVELS) {
+    const preview = serializeValue(previewValue(data, level, 0), format);
+    if (preview.length <= maxOutputSize) {
+      return `${header}\n\n${preview}`;
+    }
+  }
+
+  return `${header}\n\n${previewString(serializeValue(data, format), maxOutputSize)}`;
+}
+
+function previewValue(value: any, level: PreviewLevel, depth: number): unknown {
+  if (typeof value === "string") {
+    return previewString(value, level.characters);
+  }
+
+  if (Array.isArray(value)) {
+    if (depth >= level.depth) {
+      return `[Array with ${value.length} items]`;
+    }
+
+    const items = value
+      .slice(0, level.items)
+      .map((item) => previewValue(item, level, depth + 1));
+    if (value.length > level.items) {
+      items.push(`... ${value.length - level.items} more items`);
+    }
+    return items;
+  }
+
+  if (value && typeof value === "object") {
+    const keys = Object.keys(value);
+    if (depth >= level.depth) {
+      return `[Object with keys: ${previewString(keys.join(", "), level.characters)}]`;
+    }
+
+    const preview: Record<string, unknown> = {};
+    for (const key of keys.slice(0, level.keys)) {
+      preview[key] = previewValue(value[key], level, depth + 1);
+    }
+    if (keys.length > level.keys) {
+      preview["..."] = `${keys.length - level.keys} more keys: ${previewString(
+        keys.slice(level.keys).join(", "),
+        level.characters
+      )}`;
+    }
+    return preview;
+  }
+
+  return value;
+}
+
+function previewString(value: string, maxLength: number) {
+  return value.length > maxLength
+    ? `${value.slice(0, maxLength)}... (${value.length - maxLength} more characters)`
+    : value;
+}
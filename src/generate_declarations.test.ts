@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { generateToolSignature, generateToolsDeclaration } from './generate_declarations';
+
+describe('generateToolsDeclaration', () => {
+  it('should declare every tool with its input type and JSDoc', () => {
+    const declaration = generateToolsDeclaration({
+      getWeather: {
+        description: 'Get the current weather in a location',
+        inputSchema: z.object({
+          city: z.string().describe('The city name'),
+          units: z.enum(['celsius', 'fahrenheit']).optional(),
+        }),
+        execute: async () => ({}),
+      },
+    });
+
+    expect(declaration).toBe(`declare const tools: {
+  /** Get the current weather in a location */
+  getWeather(input: {
+    /** The city name */
+    city: string;
+    units?: "celsius" | "fahrenheit";
+  }): Promise<unknown>;
+};`);
+  });
+
+  it('should nest the tools of a namespace', () => {
+    const declaration = generateToolsDeclaration({
+      'github.createIssue': { inputSchema: z.object({ title: z.string() }), execute: async () => ({}) },
+      'github.repos.list': { execute: async () => [] },
+      ping: { execute: async () => 'pong' },
+    });
+
+    expect(declaration).toBe(`declare const tools: {
+  github: {
+    createIssue(input: {
+      title: string;
+    }): Promise<unknown>;
+    repos: {
+      list(input: unknown): Promise<unknown>;
+    };
+  };
+  ping(input: unknown): Promise<unknown>;
+};`);
+  });
+
+  it('should use the output schema for the return type when present', () => {
+    const signature = generateToolSignature('getTemperature', {
+      inputSchema: z.object({ city: z.string() }),
+      outputSchema: z.object({ celsius: z.number() }),
+      execute: async () => ({ celsius: 20 }),
+    });
+
+    expect(signature).toContain('Promise<{\n  celsius: number;\n}>');
+  });
+
+  it('should convert arrays, unions, nullables and records', () => {
+    const signature = generateToolSignature('search', {
+      inputSchema: z.object({
+        tags: z.array(z.union([z.string(), z.number()])),
+        cursor: z.string().nullable(),
+        filters: z.record(z.string(), z.boolean()),
+        exact: z.literal(true),
+      }),
+      execute: async () => [],
+    });
+
+    expect(signature).toContain('tags: (string | number)[];');
+    expect(signature).toContain('cursor: string | null;');
+    expect(signature).toContain('[key: string]: boolean;');
+    expect(signature).toContain('exact: true;');
+  });
+
+  it('should quote tool names that are not valid identifiers', () => {
+    const signature = generateToolSignature('send-email', {
+      inputSchema: z.object({}),
+      execute: async () => ({}),
+    });
+
+    expect(signature).toBe('"send-email"(input: Record<string, unknown>): Promise<unknown>;');
+  });
+});
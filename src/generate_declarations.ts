@@ -0,0 +1,226 @@
+import { NAMESPACE_SEPARATOR } from "./tool_registry";
+import { getInputSchema, normalizeSchema } from "./tool_schema";
+import { Tool } from "./types";
+import { resolveRef } from "./validate_json_schema";
+
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+const INDENT = "  ";
+
+export type DeclarationOptions = {
+  /** Result type of tools without an outputSchema (default "unknown") */
+  untypedOutput?: string;
+};
+
+/**
+ * Generates a TypeScript declaration of the sandbox `tools` object, so the
+ * model sees typed call signatures instead of raw JSON Schema.
+ */
+export function generateToolsDeclaration(
+  tools: Record<string, Tool>,
+  options: DeclarationOptions = {}
+) {
+  const members = generateToolMembers(tools, INDENT, options);
+
+  return `declare const tools: {\n${members.join("\n")}\n};`;
+}
+
+/**
+ * Generates the members of the `tools` object, with the tools of a namespace
+ * nested in an object, e.g. `github: { createIssue(...) }` for
+ * "github.createIssue".
+ */
+export function generateToolMembers(
+  tools: Record<string, Tool>,
+  indent = "",
+  options: DeclarationOptions = {}
+): string[] {
+  // Keeps the order in which tools and namespaces first appear
+  const entries = new Map<
+    string,
+    { tool: Tool } | { namespace: Record<string, Tool> }
+  >();
+
+  for (const [name, tool] of Object.entries(tools)) {
+    const index = name.indexOf(NAMESPACE_SEPARATOR);
+    if (index === -1) {
+      entries.set(name, { tool });
+      continue;
+    }
+
+    const namespace = name.slice(0, index);
+    const entry = entries.get(namespace);
+    const nested = entry && "namespace" in entry ? entry.namespace : {};
+    nested[name.slice(index + 1)] = tool;
+    entries.set(namespace, { namespace: nested });
+  }
+
+  return [...entries].map(([name, entry]) =>
+    "tool" in entry
+      ? generateToolSignature(name, entry.tool, indent, options)
+      : `${indent}${propertyKey(name)}: {\n${generateToolMembers(
+          entry.namespace,
+          indent + INDENT,
+          options
+        ).join("\n")}\n${indent}};`
+  );
+}
+
+/**
+ * Generates the call signature of a single tool, including a JSDoc comment
+ * taken from its description.
+ */
+export function generateToolSignature(
+  name: string,
+  tool: Tool,
+  indent = "",
+  options: DeclarationOptions = {}
+) {
+  const input = toTypeScript(
+    normalizeSchema(getInputSchema(tool)).jsonSchema,
+    indent
+  );
+  const output = tool.outputSchema
+    ? toTypeScript(normalizeSchema(tool.outputSchema).jsonSchema, indent)
+    : (options.untypedOutput ?? "unknown");
+
+  return `${jsDoc(tool.description, indent)}${indent}${propertyKey(
+    name
+  )}(input: ${input}): Promise<${output}>;`;
+}
+
+function toTypeScript(schema: any, indent: string, root = schema): string {
+  if (
+    !schema ||
+    typeof schema !== "object" ||
+    Object.keys(schema).length === 0
+  ) {
+    return "unknown";
+  }
+
+  if (schema.$ref) {
+    const definition = resolveRef(schema.$ref, root);
+    return definition && definition !== schema
+      ? // Recursive definitions are only expanded one level deep
+        toTypeScript(definition, indent, {})
+      : "unknown";
+  }
+
+  if (schema.const !== undefined) {
+    return JSON.stringify(schema.const);
+  }
+
+  if (Array.isArray(schema.enum)) {
+    return schema.enum.map((value: any) => JSON.stringify(value)).join(" | ");
+  }
+
+  if (schema.anyOf || schema.oneOf) {
+    return unique(
+      (schema.anyOf || schema.oneOf).map((member: any) =>
+        toTypeScript(member, indent, root)
+      )
+    ).join(" | ");
+  }
+
+  if (schema.allOf) {
+    return schema.allOf
+      .map((member: any) => toTypeScript(member, indent, root))
+      .join(" & ");
+  }
+
+  if (Array.isArray(schema.type)) {
+    return unique(
+      schema.type.map((type: string) =>
+        toTypeScript({ ...schema, type }, indent, root)
+      )
+    ).join(" | ");
+  }
+
+  switch (schema.type) {
+    case "string":
+      return "string";
+    case "number":
+    case "integer":
+      return "number";
+    case "boolean":
+      return "boolean";
+    case "null":
+      return "null";
+    case "array": {
+      if (Array.isArray(schema.prefixItems)) {
+        return `[${schema.prefixItems
+          .map((item: any) => toTypeScript(item, indent, root))
+          .join(", ")}]`;
+      }
+      const items = toTypeScript(schema.items, indent, root);
+      return isComposite(schema.items) ? `(${items})[]` : `${items}[]`;
+    }
+    case "object":
+      return objectType(schema, indent, root);
+    default:
+      return "unknown";
+  }
+}
+
+function objectType(schema: any, indent: string, root: any) {
+  const properties = Object.entries<any>(schema.properties || {});
+  const required = new Set<string>(schema.required || []);
+  const innerIndent = indent + INDENT;
+
+  const members = properties.map(
+    ([key, property]) =>
+      `${jsDoc(property.description, innerIndent)}${innerIndent}${propertyKey(
+        key
+      )}${required.has(key) ? "" : "?"}: ${toTypeScript(
+        property,
+        innerIndent,
+        root
+      )};`
+  );
+
+  if (schema.additionalProperties && schema.additionalProperties !== true) {
+    members.push(
+      `${innerIndent}[key: string]: ${toTypeScript(
+        schema.additionalProperties,
+        innerIndent,
+        root
+      )};`
+    );
+  } else if (!properties.length) {
+    return "Record<string, unknown>";
+  }
+
+  return `{\n${members.join("\n")}\n${indent}}`;
+}
+
+// Unions and intersections need parentheses when used as array items
+function isComposite(schema: any) {
+  return Boolean(
+    schema &&
+    (schema.anyOf ||
+      schema.oneOf ||
+      schema.allOf ||
+      Array.isArray(schema.type) ||
+      (Array.isArray(schema.enum) && schema.enum.length > 1))
+  );
+}
+
+function jsDoc(description: string | undefined, indent: string) {
+  if (!description) return "";
+
+  const lines = description.replace(/\*\//g, "*\\/").split("\n");
+  if (lines.length === 1) {
+    return `${indent}/** ${lines[0]} */\n`;
+  }
+
+  return `${indent}/**\n${lines
+    .map((line) => `${indent} * ${line}`)
+    .join("\n")}\n${indent} */\n`;
+}
+
+function propertyKey(key: string) {
+  return IDENTIFIER.test(key) ? key : JSON.stringify(key);
+}
+
+function unique(values: string[]) {
+  return Array.from(new Set(values));
+}
@@ -0,0 +1,164 @@
+import { describe, it, expect } from 'vitest';
+import { generateText, LanguageModel, stepCountIs, tool } from 'ai';
+import { z } from 'zod';
+import { createCodeTools } from './index';
+
+describe('createCodeTools', () => {
+  const tools = {
+    getWeather: {
+      description: 'Get the weather forecast',
+      inputSchema: z.object({ city: z.string() }),
+      execute: async ({ city }: { city: string }) => `Sunny in ${city}`,
+    },
+    github: {
+      createIssue: {
+        description: 'Create an issue',
+        inputSchema: z.object({ title: z.string() }),
+        execute: async (_input: { title: string }) => ({ id: 1 }),
+      },
+    },
+  };
+  const callOptions = { toolCallId: 'call-1', messages: [] };
+
+  it('should return discover_tools and execute_tools by default', () => {
+    expect(Object.keys(createCodeTools(tools))).toEqual(['discover_tools', 'execute_tools']);
+  });
+
+  it('should rename the meta-tools and replace their descriptions', () => {
+    const codeTools = createCodeTools(tools, {
+      discoverTool: { name: 'search', description: 'Find tools' },
+      executeTool: { name: 'run', description: 'Run code' },
+    });
+
+    expect(Object.keys(codeTools)).toEqual(['search', 'run']);
+    expect(codeTools.search.description).toBe('Find tools');
+    expect(codeTools.run.description).toMatch(/^Run code\n\nTools are grouped in namespaces/);
+  });
+
+  it('should leave out discover_tools', () => {
+    expect(Object.keys(createCodeTools(tools, { discoverTool: false }))).toEqual(['execute_tools']);
+  });
+
+  it('should inline the catalog instead of discover_tools', () => {
+    const codeTools = createCodeTools(tools, { catalog: true });
+
+    expect(Object.keys(codeTools)).toEqual(['execute_tools']);
+    expect(codeTools.execute_tools.description).toContain(
+      'The following tools are available:\n\n- tools.getWeather: Get the weather forecast\n- tools.github.createIssue: Create an issue'
+    );
+  });
+
+  it('should fall back to discovery when the catalog is too large', () => {
+    const codeTools = createCodeTools(tools, { catalog: { maxSize: 10 } });
+
+    expect(Object.keys(codeTools)).toEqual(['discover_tools', 'execute_tools']);
+    expect(codeTools.execute_tools.description).not.toContain('The following tools are available');
+  });
+
+  it('should keep discover_tools with the catalog when asked for', () => {
+    expect(Object.keys(createCodeTools(tools, { catalog: true, discoverTool: true }))).toEqual([
+      'discover_tools',
+      'execute_tools',
+    ]);
+  });
+
+  it('should expose direct tools next to the meta-tools', async () => {
+    const codeTools = createCodeTools(tools, { directTools: ['getWeather', 'github.createIssue'] });
+
+    expect(Object.keys(codeTools)).toEqual(['discover_tools', 'execute_tools', 'getWeather', 'github_createIssue']);
+    expect(codeTools.getWeather).toBe(tools.getWeather);
+    expect(await codeTools.github_createIssue.execute({ title: 'Bug' })).toEqual({ id: 1 });
+  });
+
+  it('should reject unknown and conflicting direct tools', () => {
+    expect(() => createCodeTools(tools, { directTools: ['nope'] })).toThrow('Unknown tool in directTools: "nope"');
+    expect(() =>
+      createCodeTools(tools, { executeTool: { name: 'getWeather' }, directTools: ['getWeather'] })
+    ).toThrow('"getWeather" is already the name of another tool');
+  });
+
+  it('should reject meta-tools with the same name', () => {
+    expect(() => createCodeTools(tools, { executeTool: { name: 'discover_tools' } })).toThrow(
+      '"discover_tools" is already the name of another tool'
+    );
+  });
+
+  it('should accept tools created with tool() from the AI SDK', async () => {
+    const codeTools = createCodeTools({
+      getWeather: tool({
+        inputSchema: z.object({ city: z.string() }),
+        execute: async ({ city }, { messages }) => `Sunny in ${city} after ${messages.length} messages`,
+      }),
+    });
+
+    const result = await codeTools.execute_tools.execute(
+      { code: `return await tools.getWeather({ city: 'Oslo' });` },
+      callOptions
+    );
+
+    expect(result.output).toBe('Sunny in Oslo after 0 messages');
+  });
+
+  it('should be accepted by generateText', async () => {
+    const code = `return await tools.getWeather({ city: 'Oslo' });`;
+    let step = 0;
+    const model: LanguageModel = {
+      specificationVersion: 'v2',
+      provider: 'test',
+      modelId: 'test',
+      supportedUrls: {},
+      doGenerate: async () => ({
+        content:
+          step++ === 0
+            ? [{ type: 'tool-call', toolCallId: 'call-1', toolName: 'execute_tools', input: JSON.stringify({ code }) }]
+            : [{ type: 'text', text: 'Done' }],
+        finishReason: step === 1 ? 'tool-calls' : 'stop',
+        usage: { inputTokens: 1, outputTokens: 1, totalTokens: 2 },
+        warnings: [],
+      }),
+      doStream: async () => {
+        throw new Error('Not used');
+      },
+    };
+
+    const result = await generateText({
+      model,
+      prompt: 'Weather in Oslo?',
+      tools: createCodeTools(tools, { directTools: ['github.createIssue'] }),
+      stopWhen: stepCountIs(2),
+    });
+
+    expect(result.text).toBe('Done');
+    expect(result.steps[0].toolResults[0].output).toMatchObject({ success: true, output: 'Sunny in Oslo' });
+  });
+
+  it('should run code with the renamed execute tool', async () => {
+    const codeTools = createCodeTools(tools, { executeTool: { name: 'run' } });
+
+    const result = await codeTools.run.execute(
+      { code: `return await tools.getWeather({ city: 'Oslo' });` },
+      callOptions
+    );
+
+    expect(result.output).toBe('Sunny in Oslo');
+  });
+
+  it('should stream the progress of execute_tools', async () => {
+    const codeTools = createCodeTools(tools, { streamProgress: true });
+    const values: any[] = [];
+
+    for await (const value of codeTools.execute_tools.execute(
+      { code: `return await tools.getWeather({ city: 'Oslo' });` },
+      callOptions
+    )) {
+      values.push(value);
+    }
+
+    expect(values[0]).toMatchObject({ status: 'running' });
+    expect(values[values.length - 1].output).toBe('Sunny in Oslo');
+    expect(codeTools.execute_tools.toModelOutput(values[values.length - 1])).toEqual({
+      type: 'json',
+      value: { output: 'Sunny in Oslo' },
+    });
+  });
+});
@@ -1,34 +1,396 @@
 import { z } from "zod";
-import { discoverToolsInMemory } from "./discover_tools";
-import { executeTools } from "./execute_tools";
+import {
+  createToolIndex,
+  discoverToolsInMemory,
+  SemanticSearchOptions,
+} from "./discover_tools";
+import { executeTools, ExecuteToolsOptions } from "./execute_tools";
+import { ExecutionProgress, streamExecuteTools } from "./stream_execution";
+import { formatOutput } from "./format_output";
+import { createResultStore } from "./result_store";
+import { generateToolsDeclaration } from "./generate_declarations";
+import { CatalogOptions, generateToolCatalog } from "./tool_catalog";
+import {
+  flattenTools,
+  NAMESPACE_SEPARATOR,
+  ToolRegistry,
+} from "./tool_registry";
+import { ExecutionResult, Tool, ToolCallOptions } from "./types";
 
-type Tool = {
+export type {
+  ConsoleEvent,
+  ExecutionEndEvent,
+  ExecutionError,
+  ExecutionErrorKind,
+  ExecutionHooks,
+  ExecutionResult,
+  ExecutionStartEvent,
+  PlannedToolCall,
+  PlanOptions,
+  SourceLocation,
+  Tool,
+  ToolCallDecision,
+  ToolCallEndEvent,
+  ToolCallLimits,
+  ToolCallOptions,
+  ToolCallPolicy,
+  ToolCallRequest,
+  ToolCallStartEvent,
+  ToolCallTrace,
+  ValidationFailedEvent,
+} from "./types";
+export type { EmbedFunction, SemanticSearchOptions } from "./discover_tools";
+export { flattenTools } from "./tool_registry";
+export { generateToolCatalog } from "./tool_catalog";
+export type { CatalogOptions } from "./tool_catalog";
+export type { ToolRegistry } from "./tool_registry";
+export {
+  IterationLimitError,
+  ResultNotFoundError,
+  SandboxError,
+  SessionStateLimitError,
+  ToolCallDeniedError,
+  ToolCallLimitError,
+  ToolInputError,
+} from "./errors";
+export { formatCodeFrame } from "./code_frame";
+export { executeTools } from "./execute_tools";
+export type { ExecuteToolsOptions } from "./execute_tools";
+export { streamExecuteTools } from "./stream_execution";
+export type { ExecutionProgress, ProgressEvent } from "./stream_execution";
+export { createResultStore } from "./result_store";
+export type { ResultStore, ResultStoreOptions } from "./result_store";
+export { createSession } from "./session";
+export type { Session, SessionOptions, SessionState } from "./session";
+export { createPlaceholder } from "./placeholder_value";
+export { serializeValue, toSerializable } from "./serialize_value";
+export type { OutputFormat } from "./serialize_value";
+export type { TypeScriptMode } from "./typescript";
+export { createSpanHooks } from "./tracing";
+export type { Span, SpanAttributes, SpanTracer } from "./tracing";
+export {
+  generateToolSignature,
+  generateToolsDeclaration,
+} from "./generate_declarations";
+export type { DeclarationOptions } from "./generate_declarations";
+
+export type CodeToolsOptions = ExecuteToolsOptions & {
+  /** Include the tool-call trace and error stacks in the text given to the model */
+  verboseOutput?: boolean;
+  /**
+   * Show the model TypeScript signatures of the tools, either embedded in the
+   * execute_tools description or returned by discover_tools instead of JSON Schema
+   */
+  declarations?: "description" | "discovery";
+  /** Maximum number of tools returned by discover_tools (default 10) */
+  maxDiscoveryResults?: number;
+  /** Rank discover_tools results by embedding similarity to the query */
+  semanticSearch?: SemanticSearchOptions;
+  /**
+   * List the tools in the execute_tools description, so the model can skip
+   * discover_tools. Tool sets larger than maxSize are left to discovery.
+   */
+  catalog?: boolean | CatalogOptions;
+  /**
+   * Name and description of discover_tools, or false to leave it out. It's
+   * left out by default when the catalog is in the description.
+   */
+  discoverTool?: boolean | MetaToolOptions;
+  /** Name and description of execute_tools */
+  executeTool?: MetaToolOptions;
+  /** Tools to also expose directly, by their full name, e.g. ["github.createIssue"] */
+  directTools?: readonly string[];
+  /**
+   * Make execute_tools yield its progress, tool calls and console lines, as
+   * preliminary results before the final result
+   */
+  streamProgress?: boolean;
+};
+
+export type MetaToolOptions = {
+  name?: string;
+  /** Replaces the base description, the sections added by other options are kept */
   description?: string;
-  inputSchema: z.ZodType<any>;
-  execute: (params: any) => Promise<any> | any;
 };
 
-export function createCodeTools(tools: Record<string, Tool>) {
-  return {
-    discover_tools: {
+export type DiscoverTool = {
+  description: string;
+  inputSchema: z.ZodType<{ query: string; namespace?: string }>;
+  execute: (
+    input: { query: string; namespace?: string },
+    options?: Partial<ToolCallOptions>
+  ) => ReturnType<typeof discoverToolsInMemory>;
+};
+
+/** execute_tools, whose execute yields progress with streamProgress */
+export type ExecuteTool<Output = Promise<ExecutionResult>> = {
+  description: string;
+  inputSchema: z.ZodType<{ code: string }>;
+  execute: (
+    input: { code: string },
+    options?: Partial<ToolCallOptions>
+  ) => Output;
+  toModelOutput: (result: ExecutionResult) => {
+    type: "json";
+    value: { output: string };
+  };
+};
+
+/**
+ * The tools returned by createCodeTools, keyed by the names the options give
+ * them, so they can be passed to the AI SDK as they are
+ */
+export type CodeTools<
+  Registry extends ToolRegistry,
+  Options extends CodeToolsOptions,
+> = { [Name in DiscoverToolName<Options>]: DiscoverTool } & {
+  [Name in ExecuteToolName<Options>]: ExecuteTool<
+    Options extends { streamProgress: true }
+      ? AsyncGenerator<ExecutionProgress | ExecutionResult>
+      : Promise<ExecutionResult>
+  >;
+} & DirectTools<Registry, Options>;
+
+// discover_tools is left out when asked to, or by default with a catalog
+type DiscoverToolName<Options> = Options extends { discoverTool: false }
+  ? never
+  : Options extends { discoverTool: { name: infer Name extends string } }
+    ? Name
+    : Options extends { discoverTool: true | MetaToolOptions }
+      ? "discover_tools"
+      : Options extends { catalog: true | CatalogOptions }
+        ? never
+        : "discover_tools";
+
+type ExecuteToolName<Options> = Options extends {
+  executeTool: { name: infer Name extends string };
+}
+  ? Name
+  : "execute_tools";
+
+// Only names known at compile time, like a literal array, are typed
+type DirectTools<Registry, Options> = Options extends {
+  directTools: readonly (infer Name extends string)[];
+}
+  ? string extends Name
+    ? {}
+    : {
+        [FullName in Name as DirectToolName<FullName>]: ToolAt<
+          Registry,
+          FullName
+        >;
+      }
+  : {};
+
+// e.g. "github.createIssue" becomes "github_createIssue"
+type DirectToolName<Name extends string> =
+  Name extends `${infer Head}.${infer Rest}`
+    ? `${Head}_${DirectToolName<Rest>}`
+    : Name;
+
+// The tool in the registry with a full name, e.g. registry.github.createIssue
+type ToolAt<Registry, Name extends string> = Name extends keyof Registry
+  ? Registry[Name]
+  : Name extends `${infer Head}.${infer Rest}`
+    ? Head extends keyof Registry
+      ? ToolAt<Registry[Head], Rest>
+      : never
+    : never;
+
+const EXECUTE_TOOLS_DESCRIPTION =
+  "Execute JavaScript code with access to tools via the 'tools' object. Return the result you want access to. IMPORTANT: Only use this tool to call the available tools and return their results. Do NOT attempt to access system resources, import modules, or execute any code outside of calling the provided tools. The code will be validated and execution will fail if it attempts to use require(), import, eval(), access process/global objects, or any other potentially dangerous operations.";
+
+const DISCOVER_TOOLS_DESCRIPTION =
+  "Discover available tools by searching tool names, descriptions and input fields with keywords. Results are ranked by relevance, best match first";
+
+const QUERY_SCHEMA = z
+  .string()
+  .describe(
+    "Keywords describing the tools you are looking for, e.g. 'send email'"
+  );
+
+const TYPESCRIPT_DESCRIPTION =
+  "The code can be written in TypeScript. Enums and namespaces are not supported.";
+
+const TYPESCRIPT_STRICT_DESCRIPTION =
+  "The code can be written in TypeScript, and is type-checked against the tool signatures before it runs. Enums and namespaces are not supported.";
+
+const SESSION_DESCRIPTION =
+  "A 'state' object persists across executions. Store data you will need again on it (e.g. state.users = await tools.listUsers()) instead of fetching it again, and delete what you no longer need. The state is only saved when the execution succeeds.";
+
+const NAMESPACE_DESCRIPTION =
+  "Tools are grouped in namespaces and called by their full name, e.g.";
+
+const CATALOG_DESCRIPTION = "The following tools are available:";
+
+const NAMESPACE_DISCOVERY_DESCRIPTION =
+  "Tools are grouped in namespaces, which are listed with the results. Pass a namespace to only search the tools in it";
+
+function getExecuteToolsDescription(
+  tools: Record<string, Tool>,
+  options: CodeToolsOptions,
+  catalog: string | undefined
+) {
+  let description =
+    options.executeTool?.description ?? EXECUTE_TOOLS_DESCRIPTION;
+  const namespaced = Object.keys(tools).find((name) =>
+    name.includes(NAMESPACE_SEPARATOR)
+  );
+  if (namespaced) {
+    description += `\n\n${NAMESPACE_DESCRIPTION} tools.${namespaced}(...).`;
+  }
+  if (options.typescript) {
+    description += `\n\n${
+      options.typescript === "strict"
+        ? TYPESCRIPT_STRICT_DESCRIPTION
+        : TYPESCRIPT_DESCRIPTION
+    }`;
+  }
+  if (options.session) {
+    description += `\n\n${SESSION_DESCRIPTION}`;
+  }
+  if (options.declarations === "description") {
+    description += `\n\nThe 'tools' object has the following type:\n\n${generateToolsDeclaration(
+      tools
+    )}`;
+  } else if (catalog) {
+    description += `\n\n${CATALOG_DESCRIPTION}\n\n${catalog}`;
+  }
+  return description;
+}
+
+export function createCodeTools<
+  Registry extends ToolRegistry,
+  const Options extends CodeToolsOptions = {},
+>(
+  registry: Registry,
+  options: Options = {} as Options
+): CodeTools<Registry, Options> {
+  const tools = flattenTools(registry);
+  const hasNamespaces = Object.keys(tools).some((name) =>
+    name.includes(NAMESPACE_SEPARATOR)
+  );
+  const toolIndex = createToolIndex(tools);
+  const executeOptions = {
+    ...options,
+    results: options.results ?? createResultStore(),
+  };
+
+  // A catalog that fits makes discover_tools unnecessary, unless it's asked for
+  const catalog = options.catalog
+    ? generateToolCatalog(
+        tools,
+        typeof options.catalog === "object" ? options.catalog : {}
+      )
+    : undefined;
+  const discoverTool = getMetaToolOptions(options.discoverTool, !catalog);
+  const executeTool = options.executeTool ?? {};
+
+  const codeTools: Record<string, Tool | DiscoverTool | ExecuteTool<any>> = {};
+
+  if (discoverTool) {
+    codeTools[discoverTool.name ?? "discover_tools"] = {
       description:
-        "Discover available tools by searching tool names and schemas with a query pattern",
-      inputSchema: z.object({
-        query: z.string().describe("The search query to find relevant tools"),
-      }),
-      execute: async ({ query }: { query: string }) => {
-        return discoverToolsInMemory(query, tools);
+        discoverTool.description ??
+        (hasNamespaces
+          ? `${DISCOVER_TOOLS_DESCRIPTION}. ${NAMESPACE_DISCOVERY_DESCRIPTION}`
+          : DISCOVER_TOOLS_DESCRIPTION),
+      inputSchema: hasNamespaces
+        ? z.object({
+            query: QUERY_SCHEMA,
+            namespace: z
+              .string()
+              .optional()
+              .describe(
+                "Only search the tools in this namespace, e.g. 'github'"
+              ),
+          })
+        : z.object({ query: QUERY_SCHEMA }),
+      execute: async (
+        { query, namespace }: { query: string; namespace?: string },
+        callOptions?: Partial<ToolCallOptions>
+      ) => {
+        return discoverToolsInMemory(query, toolIndex, {
+          declarations: options.declarations === "discovery",
+          limit: options.maxDiscoveryResults,
+          namespace,
+          semantic: options.semanticSearch,
+          abortSignal: callOptions?.abortSignal,
+        });
       },
+    };
+  }
+
+  const executeToolName = executeTool.name ?? "execute_tools";
+  if (Object.prototype.hasOwnProperty.call(codeTools, executeToolName)) {
+    throw new Error(`"${executeToolName}" is already the name of another tool`);
+  }
+  codeTools[executeToolName] = {
+    description: getExecuteToolsDescription(tools, options, catalog),
+    inputSchema: z.object({
+      code: z
+        .string()
+        .describe(
+          options.typescript
+            ? "The JavaScript or TypeScript code to execute"
+            : "The JavaScript code to execute"
+        ),
+    }),
+    // The AI SDK's call options reach the inner tools, so cancelling the request stops them too
+    execute: (
+      { code }: { code: string },
+      callOptions?: Partial<ToolCallOptions>
+    ) => {
+      const runOptions = {
+        ...executeOptions,
+        abortSignal: callOptions?.abortSignal ?? options.abortSignal,
+        toolCallId: callOptions?.toolCallId,
+        messages: callOptions?.messages,
+      };
+
+      // The AI SDK shows the yielded values as preliminary results, and gives the last one to the model
+      return options.streamProgress
+        ? streamExecuteTools(code, tools, runOptions)
+        : executeTools(code, tools, runOptions);
     },
-    execute_tools: {
-      description:
-        "Execute JavaScript code with access to tools via the 'tools' object. Return the result you want access to. IMPORTANT: Only use this tool to call the available tools and return their results. Do NOT attempt to access system resources, import modules, or execute any code outside of calling the provided tools. The code will be validated and execution will fail if it attempts to use require(), import, eval(), access process/global objects, or any other potentially dangerous operations.",
-      inputSchema: z.object({
-        code: z.string().describe("The JavaScript code to execute"),
-      }),
-      execute: async ({ code }: { code: string }) => {
-        return executeTools(code, tools);
+    // The full result stays available to the host, the model only sees the output text
+    toModelOutput: (result: ExecutionResult) => ({
+      type: "json" as const,
+      value: {
+        output: options.verboseOutput
+          ? formatOutput(result, {
+              verbose: true,
+              maxOutputSize: options.maxOutputSize,
+              outputFormat: options.outputFormat,
+            })
+          : result.output,
       },
-    },
+    }),
   };
+
+  // Frequently used tools can also be called directly, without writing code
+  for (const name of options.directTools ?? []) {
+    if (!Object.prototype.hasOwnProperty.call(tools, name)) {
+      throw new Error(`Unknown tool in directTools: "${name}"`);
+    }
+
+    // Model providers don't allow dots in tool names
+    const directName = name.split(NAMESPACE_SEPARATOR).join("_");
+    if (Object.prototype.hasOwnProperty.call(codeTools, directName)) {
+      throw new Error(`"${directName}" is already the name of another tool`);
+    }
+    codeTools[directName] = tools[name];
+  }
+
+  return codeTools as CodeTools<Registry, Options>;
+}
+
+// Meta-tools are on by default, and configured with an object or left out with false
+function getMetaToolOptions(
+  option: boolean | MetaToolOptions | undefined,
+  enabledByDefault: boolean
+): MetaToolOptions | undefined {
+  if (option === undefined) return enabledByDefault ? {} : undefined;
+  if (option === false) return undefined;
+  return option === true ? {} : option;
 }
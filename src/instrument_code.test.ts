@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { instrumentCode, originalColumn } from './instrument_code';
+
+const enter = (site: number) => `const __guard_depth=__guard.enter(${site});try{`;
+const exit = '}finally{__guard.exit(__guard_depth)}';
+
+describe('instrumentCode', () => {
+  it('should guard loop bodies and count again when the loop is entered', () => {
+    const result = instrumentCode(`let i = 0;\nwhile (i < 3) { i++; }\nreturn i;`);
+
+    expect(result.code).toBe(
+      `let i = 0;\n{__guard.start(0);while (i < 3) {__guard(0); i++; }}\nreturn i;`
+    );
+    expect(result.sites).toEqual([{ kind: 'while', line: 2 }]);
+  });
+
+  it('should wrap loop bodies that are single statements in a block', () => {
+    const result = instrumentCode(`for (;;) for (const a of b) x();\ndo y(); while (z)`);
+
+    expect(result.code).toBe(
+      `{__guard.start(0);for (;;) {__guard(0);{__guard.start(1);for (const a of b) {__guard(1);x();}}}}\n` +
+        `{__guard.start(2);do {__guard(2);y();} while (z)}`
+    );
+    expect(result.sites).toEqual([
+      { kind: 'for', line: 1 },
+      { kind: 'for-of', line: 1 },
+      { kind: 'do-while', line: 2 }
+    ]);
+  });
+
+  it('should track the depth in function bodies after their directives', () => {
+    const result = instrumentCode(
+      `function f() { 'use strict'; return 1; }\nclass A { m() { return 2; } n() {} }`
+    );
+
+    expect(result.code).toBe(
+      `function f() { 'use strict';${enter(0)} return 1; ${exit}}\n` +
+        `class A { m() {${enter(1)} return 2; ${exit}} n() {${enter(2)}${exit}} }`
+    );
+  });
+
+  it('should turn expression bodies of arrow functions into blocks', () => {
+    const result = instrumentCode(`const f = (a) => (b) => ({ a, b });`);
+
+    expect(result.code).toBe(
+      `const f = (a) => {${enter(0)}return (b) => {${enter(1)}return ({ a, b })${exit}}${exit}};`
+    );
+    expect(result.sites).toEqual([
+      { kind: 'function', line: 1 },
+      { kind: 'function', line: 1 }
+    ]);
+  });
+
+  it('should restore the depth of async functions after an await', () => {
+    const result = instrumentCode(
+      `async function poll() { await f(); }\nconst user = await tools.getUser({ id: 1 });`
+    );
+
+    expect(result.code).toBe(
+      `async function poll() {${enter(0)} ` +
+        `__guard.resume(__guard_depth, (__guard.exit(__guard_depth), await f())); ${exit}}\n` +
+        `const user = __guard.resume(0, await tools.getUser({ id: 1 }));`
+    );
+  });
+
+  it('should restore the depth in for await loops', () => {
+    const result = instrumentCode(`for await (const x of y) g(x);`);
+
+    expect(result.code).toBe(
+      `{__guard.start(0);for await (const x of y) {__guard(0);__guard.resume(0);g(x);}__guard.resume(0);}`
+    );
+  });
+
+  it('should not track the depth of generators', () => {
+    const result = instrumentCode(`function* h() { for (;;) yield 1; }`);
+
+    expect(result.code).toBe(
+      `function* h() { {__guard.start(0);for (;;) {__guard(0);yield 1;}} }`
+    );
+    expect(result.sites).toEqual([{ kind: 'for', line: 1 }]);
+  });
+
+  it('should keep labels working', () => {
+    const result = instrumentCode(`outer: inner: for (const a of b) { continue outer; }`);
+
+    expect(result.code).toBe(
+      `{__guard.start(0);outer: inner: for (const a of b) {__guard(0); continue outer; }}`
+    );
+  });
+
+  it('should leave code without loops, functions or awaits unchanged', () => {
+    const code = `const user = tools.getUser({ id: 1 });\nreturn user.name;`;
+
+    expect(instrumentCode(code)).toEqual({ code, sites: [], inserted: [] });
+  });
+
+  it('should map columns of the instrumented code back to the original', () => {
+    const result = instrumentCode(`const f = (a) => a.b;\nf(1);`);
+
+    expect(result.code).toBe(`const f = (a) => {${enter(0)}return a.b${exit}};\nf(1);`);
+    expect(result.inserted).toEqual([
+      { line: 1, column: 17, length: 49 },
+      { line: 1, column: 20, length: 38 }
+    ]);
+    expect(originalColumn(result.inserted, 1, 6)).toBe(6);
+    expect(originalColumn(result.inserted, 1, 20)).toBe(17);
+    expect(originalColumn(result.inserted, 1, 66)).toBe(17);
+    expect(originalColumn(result.inserted, 1, 68)).toBe(19);
+    expect(originalColumn(result.inserted, 1, 107)).toBe(20);
+    expect(originalColumn(result.inserted, 2, 0)).toBe(0);
+  });
+});
@@ -0,0 +1,287 @@
+import * as acorn from "acorn";
+
+// The parameter the guard is passed as. validateCode rejects code that uses it
+export const GUARD_NAME = "__guard";
+
+// The local that holds the call depth of a guarded function, reserved the same way
+export const GUARD_DEPTH_NAME = "__guard_depth";
+
+export type GuardSiteKind =
+  "for" | "while" | "do-while" | "for-of" | "for-in" | "function";
+
+export type GuardSite = {
+  kind: GuardSiteKind;
+  line: number;
+};
+
+const LOOP_KINDS: Record<string, GuardSiteKind> = {
+  ForStatement: "for",
+  WhileStatement: "while",
+  DoWhileStatement: "do-while",
+  ForOfStatement: "for-of",
+  ForInStatement: "for-in",
+};
+
+const FUNCTION_TYPES = new Set([
+  "FunctionDeclaration",
+  "FunctionExpression",
+  "ArrowFunctionExpression",
+]);
+
+// Same wrapper as validateCode, so await is allowed at the top level
+const WRAPPER_START = "(async () => {\n";
+
+// The call depth of the top level
+const TOP_LEVEL_DEPTH = "0";
+
+/** Text added by instrumentCode, at a position of the original code */
+export type InsertedText = {
+  line: number;
+  /** 0-based column the text was inserted before */
+  column: number;
+  length: number;
+};
+
+type Insertion = {
+  position: number;
+  text: string;
+  closing: boolean;
+  depth: number;
+};
+
+/**
+ * Injects guard calls so runaway loops and recursion can be stopped with a
+ * descriptive error:
+ * - `__guard.start(N)` before every loop and `__guard(N)` at the start of its
+ *   body, so the iterations of each run of the loop are counted
+ * - `__guard.enter(N)` at the start of every function body, with a finally
+ *   that calls `__guard.exit`, so the depth of nested calls is tracked
+ * - `__guard.exit` before and `__guard.resume` after every await, so an async
+ *   function continues at its own depth
+ * N is the index of the site. Generators aren't tracked, they only run when
+ * their caller asks for the next value. Only text without line breaks is
+ * inserted, so line numbers of the code are unchanged, and the inserted text
+ * is returned to map columns back with originalColumn.
+ */
+export function instrumentCode(code: string): {
+  code: string;
+  sites: GuardSite[];
+  inserted: InsertedText[];
+} {
+  const source = `${WRAPPER_START}${code}\n})()`;
+  const ast = acorn.parse(source, {
+    ecmaVersion: "latest",
+    sourceType: "script",
+    locations: true,
+    // So expression bodies of arrow functions are wrapped with their parentheses
+    preserveParens: true,
+  });
+
+  const sites: GuardSite[] = [];
+  const insertions: Insertion[] = [];
+  // Where loops start, including their labels
+  const loopStarts = new Map<any, number>();
+
+  const addSite = (node: any, kind: GuardSiteKind) => {
+    sites.push({ kind, line: node.loc.start.line - 1 });
+    return sites.length - 1;
+  };
+
+  // Adds text before and after a range of the source
+  const insert = (
+    start: number,
+    end: number,
+    opening: string,
+    closing: string,
+    depth: number
+  ) => {
+    // Empty, e.g. the body of `function () {}`, where closing text would be sorted first
+    if (start === end) {
+      insertions.push({
+        position: start,
+        text: opening + closing,
+        closing: false,
+        depth,
+      });
+      return;
+    }
+    insertions.push(
+      { position: start, text: opening, closing: false, depth },
+      { position: end, text: closing, closing: true, depth }
+    );
+  };
+
+  // Inserts the guard before the statements of a block, or wraps a single statement in a block
+  const guardStatement = (body: any, guard: string, depth: number) => {
+    if (body.type === "BlockStatement") {
+      insertions.push({
+        position: bodyStart(body),
+        text: guard,
+        closing: false,
+        depth,
+      });
+    } else {
+      insert(body.start, body.end, `{${guard}`, "}", depth);
+    }
+  };
+
+  const guardLoop = (
+    node: any,
+    depth: number,
+    callDepth: string | undefined
+  ) => {
+    const site = addSite(node, LOOP_KINDS[node.type]);
+    let enter = `${GUARD_NAME}.start(${site});`;
+    let guard = `${GUARD_NAME}(${site});`;
+    let leave = "";
+    // A for await loop suspends the function like an await
+    if (node.await && callDepth !== undefined) {
+      if (callDepth !== TOP_LEVEL_DEPTH) {
+        enter += `${GUARD_NAME}.exit(${callDepth});`;
+      }
+      guard += `${GUARD_NAME}.resume(${callDepth});`;
+      leave = `${GUARD_NAME}.resume(${callDepth});`;
+    }
+
+    // The loop is wrapped in a block, so the count starts over every time it's entered
+    insert(
+      loopStarts.get(node) ?? node.start,
+      node.end,
+      `{${enter}`,
+      `${leave}}`,
+      depth
+    );
+    // Inside the wrapping block, so the body is closed first
+    guardStatement(node.body, guard, depth + 1);
+  };
+
+  const guardFunction = (node: any, depth: number) => {
+    const site = addSite(node, "function");
+    const enter = `const ${GUARD_DEPTH_NAME}=${GUARD_NAME}.enter(${site});try{`;
+    const exit = `}finally{${GUARD_NAME}.exit(${GUARD_DEPTH_NAME})}`;
+
+    if (node.body.type === "BlockStatement") {
+      insert(bodyStart(node.body), node.body.end - 1, enter, exit, depth);
+    } else {
+      // Expression bodies become blocks, e.g. `x => {...try{return x * 2}...}`
+      insert(
+        node.body.start,
+        node.body.end,
+        `{${enter}return `,
+        `${exit}}`,
+        depth
+      );
+    }
+  };
+
+  const guardAwait = (node: any, depth: number, callDepth: string) => {
+    // The top level has no caller to go back to while it waits
+    if (callDepth === TOP_LEVEL_DEPTH) {
+      insert(
+        node.start,
+        node.end,
+        `${GUARD_NAME}.resume(${callDepth}, `,
+        ")",
+        depth
+      );
+    } else {
+      insert(
+        node.start,
+        node.end,
+        `${GUARD_NAME}.resume(${callDepth}, (${GUARD_NAME}.exit(${callDepth}), `,
+        "))",
+        depth
+      );
+    }
+  };
+
+  // callDepth is the expression of the call depth of the enclosing function,
+  // or undefined in generators
+  function visit(node: any, depth: number, callDepth: string | undefined) {
+    if (!node || typeof node !== "object") return;
+
+    if (Array.isArray(node)) {
+      node.forEach((child) => visit(child, depth, callDepth));
+      return;
+    }
+
+    if (node.type === "LabeledStatement") {
+      loopStarts.set(node.body, loopStarts.get(node) ?? node.start);
+    } else if (LOOP_KINDS[node.type]) {
+      guardLoop(node, depth, callDepth);
+    } else if (FUNCTION_TYPES.has(node.type)) {
+      if (node.generator) {
+        callDepth = undefined;
+      } else {
+        guardFunction(node, depth);
+        callDepth = GUARD_DEPTH_NAME;
+      }
+    } else if (node.type === "AwaitExpression" && callDepth !== undefined) {
+      guardAwait(node, depth, callDepth);
+    }
+
+    for (const key in node) {
+      if (key === "loc") continue;
+      visit(node[key], depth + 1, callDepth);
+    }
+  }
+
+  // Only the code inside the wrapper function is guarded
+  const wrapper = (ast.body[0] as any).expression.callee.expression;
+  visit(wrapper.body.body, 0, TOP_LEVEL_DEPTH);
+
+  // At the same position, closing text goes before opening text, inner closes
+  // before outer closes and outer opens before inner opens
+  insertions.sort(
+    (a, b) =>
+      a.position - b.position ||
+      Number(b.closing) - Number(a.closing) ||
+      (a.closing ? b.depth - a.depth : a.depth - b.depth)
+  );
+
+  let instrumented = "";
+  let last = 0;
+  const inserted: InsertedText[] = [];
+  for (const { position, text } of insertions) {
+    const index = position - WRAPPER_START.length;
+    instrumented += code.slice(last, index) + text;
+    last = index;
+
+    const { line, column } = acorn.getLineInfo(source, position);
+    inserted.push({ line: line - 1, column, length: text.length });
+  }
+  instrumented += code.slice(last);
+
+  return { code: instrumented, sites, inserted };
+}
+
+/**
+ * Maps a 0-based column of the instrumented code back to the original code.
+ * Columns inside inserted text map to where it was inserted.
+ */
+export function originalColumn(
+  inserted: InsertedText[],
+  line: number,
+  column: number
+) {
+  let shift = 0;
+  for (const text of inserted) {
+    if (text.line !== line) continue;
+
+    const start = text.column + shift;
+    if (column < start) break;
+    if (column < start + text.length) return text.column;
+    shift += text.length;
+  }
+  return column - shift;
+}
+
+// The position after the opening brace and any directives like "use strict"
+function bodyStart(block: any) {
+  let start = block.start + 1;
+  for (const statement of block.body) {
+    if (statement.directive === undefined) break;
+    start = statement.end;
+  }
+  return start;
+}
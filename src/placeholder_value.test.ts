@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { createPlaceholder } from './placeholder_value';
+
+describe('createPlaceholder', () => {
+  it('should fill in required properties with values of their type', () => {
+    const schema = z.object({
+      id: z.string(),
+      count: z.number(),
+      active: z.boolean(),
+      tags: z.array(z.string()),
+      note: z.string().optional(),
+    });
+
+    expect(createPlaceholder(schema)).toEqual({ id: '', count: 0, active: false, tags: [] });
+  });
+
+  it('should use defaults, literals and enums', () => {
+    const schema = z.object({
+      status: z.enum(['queued', 'sent']),
+      kind: z.literal('email'),
+      retries: z.number().default(3),
+    });
+
+    expect(createPlaceholder(schema)).toEqual({ status: 'queued', kind: 'email', retries: 3 });
+  });
+
+  it('should respect string formats and lengths and number bounds', () => {
+    const schema = z.object({
+      email: z.email(),
+      id: z.uuid(),
+      code: z.string().min(4),
+      page: z.number().int().min(1),
+      score: z.number().gt(0.5),
+    });
+    const value = createPlaceholder(schema);
+
+    expect(schema.safeParse(value).success).toBe(true);
+  });
+
+  it('should prefer members of unions that are not null', () => {
+    const schema = z.object({ messageId: z.string().nullable() });
+
+    expect(createPlaceholder(schema)).toEqual({ messageId: '' });
+  });
+
+  it('should fill arrays up to their minimum length', () => {
+    const schema = z.array(z.object({ id: z.number() })).min(2);
+
+    expect(createPlaceholder(schema)).toEqual([{ id: 0 }, { id: 0 }]);
+  });
+
+  it('should stop at recursive schemas', () => {
+    type Node = { name: string; child: Node };
+    const node: z.ZodType<Node> = z.lazy(() => z.object({ name: z.string(), get child() { return node; } }));
+
+    expect(() => createPlaceholder(node)).not.toThrow();
+  });
+});
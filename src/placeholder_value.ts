@@ -0,0 +1,110 @@
+import { normalizeSchema, ToolSchema } from "./tool_schema";
+import { resolveRef } from "./validate_json_schema";
+
+// Placeholder strings for common formats, so they pass format checks
+const STRING_FORMATS: Record<string, string> = {
+  "date-time": "1970-01-01T00:00:00.000Z",
+  date: "1970-01-01",
+  time: "00:00:00",
+  email: "user@example.com",
+  uri: "https://example.com",
+  url: "https://example.com",
+  uuid: "00000000-0000-4000-8000-000000000000",
+  ipv4: "127.0.0.1",
+  ipv6: "::1",
+};
+
+// Recursive schemas are cut off at this depth
+const MAX_DEPTH = 5;
+
+/**
+ * Creates a value that matches a schema, e.g. for the result of a tool that
+ * isn't really called. Defaults, constants and examples from the schema are
+ * used where they exist, and only required object properties are filled in.
+ */
+export function createPlaceholder(schema: ToolSchema): unknown {
+  const { jsonSchema } = normalizeSchema(schema);
+  return placeholder(jsonSchema, jsonSchema, 0);
+}
+
+function placeholder(schema: any, root: any, depth: number): unknown {
+  if (!schema || typeof schema !== "object" || depth > MAX_DEPTH) {
+    return null;
+  }
+
+  if (schema.$ref) {
+    return placeholder(resolveRef(schema.$ref, root), root, depth + 1);
+  }
+  if (schema.default !== undefined) return schema.default;
+  if (schema.const !== undefined) return schema.const;
+  if (Array.isArray(schema.examples) && schema.examples.length) {
+    return schema.examples[0];
+  }
+  if (Array.isArray(schema.enum) && schema.enum.length) {
+    return schema.enum[0];
+  }
+
+  // Prefer a member that isn't null, so the code can use the value
+  const members = schema.anyOf || schema.oneOf;
+  if (Array.isArray(members) && members.length) {
+    const member =
+      members.find((item: any) => item?.type !== "null") ?? members[0];
+    return placeholder(member, root, depth);
+  }
+  if (Array.isArray(schema.allOf)) {
+    return Object.assign(
+      {},
+      ...schema.allOf.map((member: any) => placeholder(member, root, depth))
+    );
+  }
+
+  const type = Array.isArray(schema.type)
+    ? (schema.type.find((item: string) => item !== "null") ?? schema.type[0])
+    : schema.type;
+
+  switch (type) {
+    case "string": {
+      const value = STRING_FORMATS[schema.format] ?? "";
+      return value.padEnd(schema.minLength ?? 0, "x");
+    }
+    case "number":
+    case "integer":
+      return numberPlaceholder(schema, type === "integer");
+    case "boolean":
+      return false;
+    case "null":
+      return null;
+    case "array": {
+      if (Array.isArray(schema.prefixItems)) {
+        return schema.prefixItems.map((item: any) =>
+          placeholder(item, root, depth + 1)
+        );
+      }
+      return Array.from({ length: schema.minItems ?? 0 }, () =>
+        placeholder(schema.items, root, depth + 1)
+      );
+    }
+    case "object": {
+      const object: Record<string, unknown> = {};
+      for (const key of schema.required ?? []) {
+        object[key] = placeholder(schema.properties?.[key], root, depth + 1);
+      }
+      return object;
+    }
+    default:
+      return null;
+  }
+}
+
+function numberPlaceholder(schema: any, integer: boolean) {
+  let value = 0;
+  if (schema.minimum !== undefined) value = Math.max(value, schema.minimum);
+  if (schema.exclusiveMinimum !== undefined) {
+    value = Math.max(value, schema.exclusiveMinimum + 1);
+  }
+  if (schema.maximum !== undefined) value = Math.min(value, schema.maximum);
+  if (schema.exclusiveMaximum !== undefined) {
+    value = Math.min(value, schema.exclusiveMaximum - 1);
+  }
+  return integer ? Math.ceil(value) : value;
+}
@@ -0,0 +1,52 @@
+import { randomUUID } from "crypto";
+import { ResultNotFoundError } from "./errors";
+
+export type ResultStoreOptions = {
+  /** Number of results to keep, oldest are removed first (default 20) */
+  maxResults?: number;
+};
+
+/**
+ * Keeps the full values of results that were too large for the output, so
+ * later executions can read them with `tools.$results.get(handle)`.
+ */
+export type ResultStore = {
+  /** Stores a value and returns its handle */
+  add(value: unknown): string;
+  /** Returns a stored value, throwing a ResultNotFoundError for unknown handles */
+  get(handle: string): unknown;
+  clear(): void;
+};
+
+const DEFAULT_MAX_RESULTS = 20;
+
+export function createResultStore(
+  options: ResultStoreOptions = {}
+): ResultStore {
+  const maxResults = options.maxResults ?? DEFAULT_MAX_RESULTS;
+  const results = new Map<string, unknown>();
+
+  return {
+    add(value) {
+      // Random handles, so a store shared by conversations doesn't hand out guessable ids
+      const handle = `result_${randomUUID().slice(0, 8)}`;
+      results.set(handle, value);
+
+      // Maps iterate in insertion order, so the first key is the oldest result
+      while (results.size > maxResults) {
+        results.delete(results.keys().next().value!);
+      }
+
+      return handle;
+    },
+    get(handle) {
+      if (!results.has(handle)) {
+        throw new ResultNotFoundError(handle);
+      }
+      return results.get(handle);
+    },
+    clear() {
+      results.clear();
+    },
+  };
+}
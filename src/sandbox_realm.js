@@ -0,0 +1,270 @@
+// Helpers that are evaluated inside the sandbox realm, so everything they
+// create belongs to that realm. The worker reads this file as text and runs it
+// in the sandbox context, so it must not reference anything from outside of it.
+(function createRealmHelpers() {
+  const defineName = (error, name) =>
+    Object.defineProperty(error, "name", {
+      value: name,
+      writable: true,
+      configurable: true,
+    });
+
+  // Copies a value received from the host into this realm, so its prototypes
+  // (e.g. result.constructor.constructor) never lead outside the sandbox
+  function copyIn(value, seen = new Map()) {
+    if (value === null || typeof value !== "object") {
+      return value;
+    }
+    if (seen.has(value)) {
+      return seen.get(value);
+    }
+
+    const tag = Object.prototype.toString.call(value).slice(8, -1);
+    let copy;
+
+    switch (tag) {
+      case "Array":
+        copy = [];
+        seen.set(value, copy);
+        for (const item of Array.from(value)) {
+          copy.push(copyIn(item, seen));
+        }
+        return copy;
+      case "Date":
+        copy = new Date(value.getTime());
+        break;
+      case "RegExp":
+        copy = new RegExp(value.source, value.flags);
+        break;
+      case "Map":
+        copy = new Map();
+        seen.set(value, copy);
+        for (const [key, item] of Array.from(value.entries())) {
+          copy.set(copyIn(key, seen), copyIn(item, seen));
+        }
+        return copy;
+      case "Set":
+        copy = new Set();
+        seen.set(value, copy);
+        for (const item of Array.from(value.values())) {
+          copy.add(copyIn(item, seen));
+        }
+        return copy;
+      case "Error":
+        copy = new Error(String(value.message));
+        defineName(copy, String(value.name));
+        break;
+      default: {
+        const TypedArray = globalThis[tag];
+        if (ArrayBuffer.isView(value) && typeof TypedArray === "function") {
+          copy = new TypedArray(Array.from(value));
+          break;
+        }
+
+        copy = {};
+        seen.set(value, copy);
+        // Defined rather than assigned, so a "__proto__" key can't change the prototype
+        for (const key of Object.keys(value)) {
+          Object.defineProperty(copy, key, {
+            value: copyIn(value[key], seen),
+            writable: true,
+            enumerable: true,
+            configurable: true,
+          });
+        }
+        return copy;
+      }
+    }
+
+    seen.set(value, copy);
+    return copy;
+  }
+
+  // An error of this realm with the name and message of an error from outside it
+  function copyError(error) {
+    const copy = new Error(String(error && error.message));
+    defineName(copy, String((error && error.name) || "Error"));
+    return copy;
+  }
+
+  // Host errors and results are copied into this realm
+  async function callHost(request) {
+    let result;
+    try {
+      result = await request();
+    } catch (error) {
+      throw copyError(error);
+    }
+    return copyIn(result);
+  }
+
+  // Calls a function of the worker realm, whose errors would lead to its Function
+  // constructor, e.g. a RangeError from util.inspect running out of stack
+  function callWorker(callback) {
+    try {
+      return callback();
+    } catch (error) {
+      throw copyError(error);
+    }
+  }
+
+  function createTools(names, callTool, getResult) {
+    const tools = {};
+    for (const name of names) {
+      const wrapper = async (...args) => callHost(() => callTool(name, args));
+
+      // Namespaced names like "github.createIssue" become nested objects
+      const path = name.split(".");
+      let namespace = tools;
+      for (const segment of path.slice(0, -1)) {
+        if (!namespace[segment]) namespace[segment] = {};
+        namespace = namespace[segment];
+      }
+
+      // Make the tool callable directly
+      namespace[path[path.length - 1]] = wrapper;
+
+      // Also keep the original structure for tools.name.execute() pattern
+      wrapper.execute = wrapper;
+    }
+
+    // Full values of earlier results that were truncated in the output
+    tools.$results = {
+      get: (handle) => callHost(() => getResult(String(handle))),
+    };
+    return tools;
+  }
+
+  function createConsole(write) {
+    const console = {};
+    for (const level of ["log", "info", "debug", "warn", "error", "table"]) {
+      console[level] = (...args) => {
+        callWorker(() => write(level, args));
+      };
+    }
+    return console;
+  }
+
+  // Counts the iterations of every loop since it was entered, and tracks how
+  // deep function calls are nested, for the guard calls that instrumentCode
+  // injected. Sites are the indexes of the guard calls
+  function createGuard(maxIterations, maxCallDepth, onLimit) {
+    const counts = [];
+    let depth = 0;
+
+    const exceeded = (site, message) => {
+      callWorker(() => onLimit(site));
+      throw new Error(message);
+    };
+
+    const guard = (site) => {
+      counts[site] = (counts[site] || 0) + 1;
+      if (counts[site] > maxIterations) {
+        exceeded(site, "Iteration limit exceeded");
+      }
+    };
+    guard.start = (site) => {
+      counts[site] = 0;
+    };
+    guard.enter = (site) => {
+      if (depth >= maxCallDepth) {
+        exceeded(site, "Call depth limit exceeded");
+      }
+      return ++depth;
+    };
+    guard.exit = (callDepth) => {
+      depth = callDepth - 1;
+    };
+    // An async function continues at its own depth after an await
+    guard.resume = (callDepth, value) => {
+      depth = callDepth;
+      return value;
+    };
+    return guard;
+  }
+
+  // Freezes every intrinsic reachable from the global object, so the code can't
+  // tamper with prototypes (e.g. Error.prepareStackTrace or Object.prototype)
+  function freezeIntrinsics() {
+    for (const prototype of [
+      Object.prototype,
+      Function.prototype,
+      Error.prototype,
+      TypeError.prototype,
+      RangeError.prototype,
+      SyntaxError.prototype,
+    ]) {
+      allowOverrides(prototype);
+    }
+
+    const seen = new Set();
+    const freeze = (value) => {
+      if (
+        value === null ||
+        (typeof value !== "object" && typeof value !== "function") ||
+        seen.has(value)
+      ) {
+        return;
+      }
+      seen.add(value);
+      Object.freeze(value);
+
+      for (const key of Reflect.ownKeys(value)) {
+        const descriptor = Reflect.getOwnPropertyDescriptor(value, key);
+        if ("value" in descriptor) {
+          freeze(descriptor.value);
+        } else {
+          freeze(descriptor.get);
+          freeze(descriptor.set);
+        }
+      }
+      freeze(Object.getPrototypeOf(value));
+    };
+
+    for (const name of Object.getOwnPropertyNames(globalThis)) {
+      if (name !== "globalThis") {
+        freeze(globalThis[name]);
+      }
+    }
+    freeze(async () => {});
+    freeze(function* () {});
+    freeze(async function* () {});
+  }
+
+  // Assigning to a property inherited from a frozen prototype fails, e.g.
+  // error.name = "NotFoundError" or obj.toString = ..., so these properties
+  // become accessors that define the property on the object instead
+  function allowOverrides(prototype) {
+    for (const key of Object.getOwnPropertyNames(prototype)) {
+      const descriptor = Object.getOwnPropertyDescriptor(prototype, key);
+      if (key === "constructor" || !("value" in descriptor)) continue;
+
+      Object.defineProperty(prototype, key, {
+        get: () => descriptor.value,
+        set(value) {
+          if (this === prototype) {
+            throw new TypeError(
+              `Cannot assign to read only property '${key}' of a built-in prototype`
+            );
+          }
+          Object.defineProperty(this, key, {
+            value,
+            writable: true,
+            enumerable: true,
+            configurable: true,
+          });
+        },
+        enumerable: descriptor.enumerable,
+        configurable: false,
+      });
+    }
+  }
+
+  return {
+    copyIn,
+    createTools,
+    createConsole,
+    createGuard,
+    freezeIntrinsics,
+  };
+})();
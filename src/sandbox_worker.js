@@ -0,0 +1,210 @@
+// Entry point of the sandbox worker thread, started by executeTools with a
+// workerData of { code, toolNames, maxConsoleOutput, maxIterations,
+// maxCallDepth, state }. It's plain JavaScript, so it runs as it is from the
+// sources and from dist.
+const { parentPort, workerData } = require("worker_threads");
+const fs = require("fs");
+const path = require("path");
+const vm = require("vm");
+const { toCloneable } = require("./cloneable");
+
+// Calls waiting for the host, by id
+const pendingCalls = new Map();
+let nextCallId = 0;
+
+// Sends a request to the host and resolves with its "result" or "error" reply
+function callHost(message) {
+  return new Promise((resolve, reject) => {
+    const id = nextCallId++;
+    pendingCalls.set(id, { resolve, reject });
+    try {
+      parentPort.postMessage({ ...message, id });
+    } catch (error) {
+      pendingCalls.delete(id);
+      reject(
+        isDataCloneError(error)
+          ? new TypeError(
+              "Tool arguments must be cloneable data (functions are not allowed)"
+            )
+          : error
+      );
+    }
+  });
+}
+
+// Its message quotes the value, and functions would be quoted with the injected guard calls
+function isDataCloneError(error) {
+  return Boolean(error) && error.name === "DataCloneError";
+}
+
+// Proxy a tool call back to the host, which owns the real execute functions
+function callTool(name, args) {
+  return callHost({ type: "call", name, args });
+}
+
+// Stored results also live on the host, see ResultStore
+function getResult(handle) {
+  return callHost({ type: "getResult", handle });
+}
+
+function serializeError(error) {
+  if (error && typeof error === "object") {
+    return {
+      name: String(error.name || "Error"),
+      message: String(error.message),
+      stack: typeof error.stack === "string" ? error.stack : undefined,
+    };
+  }
+  return { name: "Error", message: String(error) };
+}
+
+parentPort.on("message", (message) => {
+  const pending = pendingCalls.get(message.id);
+  if (!pending) return;
+  pendingCalls.delete(message.id);
+
+  if (message.type === "result") {
+    pending.resolve(message.value);
+  } else {
+    pending.reject(message.error);
+  }
+});
+
+// Sandbox-scoped console that forwards output to the host instead of the process stdout
+const { Console } = require("console");
+const { formatWithOptions } = require("util");
+const { Writable } = require("stream");
+let consoleOutputSize = 0;
+let consoleTruncated = false;
+
+// Custom inspect functions would receive functions from this realm, so they are never called
+const inspectOptions = { customInspect: false };
+
+function log(level, message) {
+  if (consoleTruncated) return;
+
+  consoleOutputSize += message.length;
+  if (consoleOutputSize > workerData.maxConsoleOutput) {
+    consoleTruncated = true;
+    parentPort.postMessage({
+      type: "console",
+      level: "warn",
+      message: `Console output truncated after ${workerData.maxConsoleOutput} characters`,
+    });
+    return;
+  }
+
+  parentPort.postMessage({ type: "console", level, message });
+}
+
+// console.table is rendered by a real Console writing into a buffer
+let tableOutput = "";
+const tableConsole = new Console({
+  stdout: new Writable({
+    write(chunk, _encoding, callback) {
+      tableOutput += chunk;
+      callback();
+    },
+  }),
+  colorMode: false,
+  inspectOptions,
+});
+
+function writeConsole(level, args) {
+  if (level === "table") {
+    tableOutput = "";
+    tableConsole.table(...args);
+    log("log", tableOutput.replace(/\n$/, ""));
+  } else {
+    log(level, formatWithOptions(inspectOptions, ...args));
+  }
+}
+
+// The code runs in a separate realm, without string code generation (eval, Function)
+// and with frozen intrinsics. Nothing from this realm is handed to the code: tools,
+// console and every value crossing the boundary are created inside the sandbox realm
+const context = vm.createContext(
+  {},
+  { codeGeneration: { strings: false, wasm: false } }
+);
+const realm = vm.runInContext(
+  fs.readFileSync(path.join(__dirname, "sandbox_realm.js"), "utf8"),
+  context,
+  { filename: "sandbox_realm.js" }
+);
+
+// Wrap tools so they can be called directly as functions
+// IMPORTANT: The wrappers only forward to the host, so toString() never exposes the implementation
+const tools = realm.createTools(workerData.toolNames, callTool, getResult);
+const sandboxConsole = realm.createConsole(writeConsole);
+// The host aborts the execution, even if the code catches the thrown error
+const guard = realm.createGuard(
+  workerData.maxIterations,
+  workerData.maxCallDepth,
+  (site) => parentPort.postMessage({ type: "limit", site })
+);
+realm.freezeIntrinsics();
+
+// The session state is a global, so the code can reassign it or shadow it with a local
+if (workerData.state) {
+  context.state = realm.copyIn(workerData.state);
+}
+
+// Compile a function with tools, console and the guard as parameters, which returns
+// the code as an async arrow function. The code is in the body of the compiled
+// function, so even code that closes the arrow function can't get out of it.
+// Strict mode and an undefined this keep `this` from leading to the sandbox global,
+// whose built-ins (Reflect, Proxy, WebAssembly) the validation doesn't allow
+const runCode = vm
+  .compileFunction(
+    `"use strict"; return async () => {
+${workerData.code}
+};`,
+    ["tools", "console", "__guard"],
+    { filename: "execute_tools.js", parsingContext: context }
+  )
+  .call(undefined, tools, sandboxConsole, guard);
+
+runCode().then(
+  (value) => {
+    let state;
+    if (workerData.state) {
+      try {
+        state = readState();
+      } catch (error) {
+        parentPort.postMessage({
+          type: "error",
+          error: { name: "SessionStateError", message: error.message },
+        });
+        return;
+      }
+    }
+
+    parentPort.postMessage({
+      type: "done",
+      value: toCloneable(value),
+      state,
+    });
+  },
+  (error) => {
+    parentPort.postMessage({ type: "error", error: serializeError(error) });
+  }
+);
+
+// Unlike return values, the state must survive intact, so it has no fallback
+function readState() {
+  const state = context.state;
+  if (state === null || typeof state !== "object" || Array.isArray(state)) {
+    throw new Error("The session state must be an object");
+  }
+
+  try {
+    return structuredClone(state);
+  } catch (error) {
+    throw new Error(
+      isDataCloneError(error)
+        ? "The session state can only hold cloneable values like objects, arrays, Maps, Sets and Dates (functions are not allowed)"
+        : `The session state can only hold cloneable values like objects, arrays, Maps, Sets and Dates: ${error.message}`
+    );
+  }
+}
@@ -0,0 +1,304 @@
+// Lexical scope resolution over an Acorn (ESTree) AST, used to find the free
+// variables of the code, i.e. the identifiers that resolve to globals.
+
+type Scope = {
+  parent?: Scope;
+  names: Set<string>;
+};
+
+const FUNCTION_TYPES = new Set([
+  "FunctionDeclaration",
+  "FunctionExpression",
+  "ArrowFunctionExpression",
+]);
+
+const NON_CHILD_KEYS = new Set(["type", "start", "end", "loc", "range"]);
+
+/**
+ * Returns every identifier node that references a variable not declared
+ * anywhere in the code.
+ */
+export function findFreeVariables(ast: any) {
+  const free: any[] = [];
+  const globalScope = createScope();
+
+  declareVars(ast.body, globalScope);
+  declareLexical(ast.body, globalScope);
+  visit(ast, globalScope, free);
+
+  return free;
+}
+
+function createScope(parent?: Scope): Scope {
+  return { parent, names: new Set() };
+}
+
+function isDeclared(name: string, scope: Scope | undefined): boolean {
+  for (let current = scope; current; current = current.parent) {
+    if (current.names.has(name)) return true;
+  }
+  return false;
+}
+
+function visit(node: any, scope: Scope, free: any[]): void {
+  if (!node || typeof node !== "object") return;
+
+  if (Array.isArray(node)) {
+    node.forEach((child) => visit(child, scope, free));
+    return;
+  }
+
+  switch (node.type) {
+    case "Identifier":
+      if (!isDeclared(node.name, scope)) {
+        free.push(node);
+      }
+      return;
+
+    case "Program":
+      visit(node.body, scope, free);
+      return;
+
+    case "FunctionDeclaration":
+    case "FunctionExpression":
+    case "ArrowFunctionExpression": {
+      const functionScope = createScope(scope);
+
+      // A named function expression can reference itself
+      if (node.type === "FunctionExpression" && node.id) {
+        functionScope.names.add(node.id.name);
+      }
+      if (node.type !== "ArrowFunctionExpression") {
+        functionScope.names.add("arguments");
+      }
+
+      for (const param of node.params) {
+        declarePattern(param, functionScope);
+      }
+      for (const param of node.params) {
+        visitPatternExpressions(param, functionScope, free);
+      }
+
+      if (node.body.type === "BlockStatement") {
+        declareVars(node.body.body, functionScope);
+        declareLexical(node.body.body, functionScope);
+        visit(node.body.body, functionScope, free);
+      } else {
+        visit(node.body, functionScope, free);
+      }
+      return;
+    }
+
+    case "ClassDeclaration":
+    case "ClassExpression": {
+      visit(node.superClass, scope, free);
+
+      const classScope = createScope(scope);
+      if (node.id) {
+        classScope.names.add(node.id.name);
+      }
+      visit(node.body, classScope, free);
+      return;
+    }
+
+    case "BlockStatement":
+    case "StaticBlock": {
+      const blockScope = createScope(scope);
+      declareLexical(node.body, blockScope);
+      visit(node.body, blockScope, free);
+      return;
+    }
+
+    case "SwitchStatement": {
+      visit(node.discriminant, scope, free);
+
+      const switchScope = createScope(scope);
+      for (const switchCase of node.cases) {
+        declareLexical(switchCase.consequent, switchScope);
+      }
+      visit(node.cases, switchScope, free);
+      return;
+    }
+
+    case "ForStatement":
+    case "ForInStatement":
+    case "ForOfStatement": {
+      const loopScope = createScope(scope);
+      const head = node.type === "ForStatement" ? node.init : node.left;
+      if (head?.type === "VariableDeclaration" && head.kind !== "var") {
+        for (const declarator of head.declarations) {
+          declarePattern(declarator.id, loopScope);
+        }
+      }
+
+      visit(head, loopScope, free);
+      visit(node.test, loopScope, free);
+      visit(node.update, loopScope, free);
+      visit(node.right, loopScope, free);
+      visit(node.body, loopScope, free);
+      return;
+    }
+
+    case "CatchClause": {
+      const catchScope = createScope(scope);
+      if (node.param) {
+        declarePattern(node.param, catchScope);
+        visitPatternExpressions(node.param, catchScope, free);
+      }
+      visit(node.body, catchScope, free);
+      return;
+    }
+
+    case "VariableDeclaration":
+      // The declared names were hoisted when entering the scope
+      for (const declarator of node.declarations) {
+        visitPatternExpressions(declarator.id, scope, free);
+        visit(declarator.init, scope, free);
+      }
+      return;
+
+    case "MemberExpression":
+      visit(node.object, scope, free);
+      if (node.computed) {
+        visit(node.property, scope, free);
+      }
+      return;
+
+    case "Property":
+    case "MethodDefinition":
+    case "PropertyDefinition":
+      if (node.computed) {
+        visit(node.key, scope, free);
+      }
+      visit(node.value, scope, free);
+      return;
+
+    case "LabeledStatement":
+      visit(node.body, scope, free);
+      return;
+
+    case "BreakStatement":
+    case "ContinueStatement":
+    case "MetaProperty":
+      return;
+
+    default:
+      for (const key in node) {
+        if (NON_CHILD_KEYS.has(key)) continue;
+        visit(node[key], scope, free);
+      }
+  }
+}
+
+// Adds the names bound by a declaration pattern, e.g. `{ a, b: [c, ...d] }`
+function declarePattern(pattern: any, scope: Scope): void {
+  if (!pattern) return;
+
+  switch (pattern.type) {
+    case "Identifier":
+      scope.names.add(pattern.name);
+      break;
+    case "ObjectPattern":
+      for (const property of pattern.properties) {
+        declarePattern(
+          property.type === "RestElement" ? property.argument : property.value,
+          scope
+        );
+      }
+      break;
+    case "ArrayPattern":
+      pattern.elements.forEach((element: any) =>
+        declarePattern(element, scope)
+      );
+      break;
+    case "RestElement":
+      declarePattern(pattern.argument, scope);
+      break;
+    case "AssignmentPattern":
+      declarePattern(pattern.left, scope);
+      break;
+  }
+}
+
+// Visits the expressions inside a declaration pattern: default values and computed keys
+function visitPatternExpressions(pattern: any, scope: Scope, free: any[]) {
+  if (!pattern) return;
+
+  switch (pattern.type) {
+    case "ObjectPattern":
+      for (const property of pattern.properties) {
+        if (property.type === "RestElement") {
+          visitPatternExpressions(property.argument, scope, free);
+        } else {
+          if (property.computed) {
+            visit(property.key, scope, free);
+          }
+          visitPatternExpressions(property.value, scope, free);
+        }
+      }
+      break;
+    case "ArrayPattern":
+      pattern.elements.forEach((element: any) =>
+        visitPatternExpressions(element, scope, free)
+      );
+      break;
+    case "RestElement":
+      visitPatternExpressions(pattern.argument, scope, free);
+      break;
+    case "AssignmentPattern":
+      visitPatternExpressions(pattern.left, scope, free);
+      visit(pattern.right, scope, free);
+      break;
+  }
+}
+
+// let, const, class and function declarations are scoped to their block
+function declareLexical(statements: any[], scope: Scope) {
+  for (const statement of statements) {
+    if (statement.type === "VariableDeclaration" && statement.kind !== "var") {
+      for (const declarator of statement.declarations) {
+        declarePattern(declarator.id, scope);
+      }
+    } else if (
+      (statement.type === "FunctionDeclaration" ||
+        statement.type === "ClassDeclaration") &&
+      statement.id
+    ) {
+      scope.names.add(statement.id.name);
+    }
+  }
+}
+
+// var declarations are hoisted to the function. Function declarations in nested
+// blocks aren't, because the code runs in strict mode, so declareLexical scopes
+// them to their block
+function declareVars(node: any, scope: Scope): void {
+  if (!node || typeof node !== "object") return;
+
+  if (Array.isArray(node)) {
+    node.forEach((child) => declareVars(child, scope));
+    return;
+  }
+
+  if (node.type === "VariableDeclaration") {
+    if (node.kind === "var") {
+      for (const declarator of node.declarations) {
+        declarePattern(declarator.id, scope);
+      }
+    }
+    return;
+  }
+
+  if (FUNCTION_TYPES.has(node.type)) {
+    return;
+  }
+
+  if (node.type === "ClassDeclaration" || node.type === "ClassExpression") {
+    return;
+  }
+
+  for (const key in node) {
+    if (NON_CHILD_KEYS.has(key)) continue;
+    declareVars(node[key], scope);
+  }
+}
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { serializeValue, toSerializable } from './serialize_value';
+
+describe('toSerializable', () => {
+  it('should convert Maps and Sets', () => {
+    expect(
+      toSerializable({
+        byId: new Map([[1, 'a'], [2, 'b']]),
+        byObject: new Map([[{ id: 1 }, 'a']]),
+        tags: new Set(['x', 'y'])
+      })
+    ).toEqual({
+      byId: { 1: 'a', 2: 'b' },
+      byObject: [[{ id: 1 }, 'a']],
+      tags: ['x', 'y']
+    });
+  });
+
+  it('should convert BigInts, dates and numbers JSON can not represent', () => {
+    expect(
+      toSerializable([12345678901234567890n, new Date(0), new Date(NaN), NaN, -Infinity])
+    ).toEqual(['12345678901234567890n', '1970-01-01T00:00:00.000Z', 'Invalid Date', 'NaN', '-Infinity']);
+  });
+
+  it('should keep the name, message, properties and cause of errors', () => {
+    // The cause option of the constructor isn't in the ES2020 lib
+    const error = Object.assign(new TypeError('Not found'), {
+      status: 404,
+      cause: new Error('Timeout')
+    });
+
+    expect(toSerializable(error)).toEqual({
+      name: 'TypeError',
+      message: 'Not found',
+      status: 404,
+      cause: { name: 'Error', message: 'Timeout' }
+    });
+  });
+
+  it('should replace circular references', () => {
+    const parent: any = { name: 'parent', children: [] };
+    parent.children.push({ name: 'child', parent });
+
+    expect(toSerializable(parent)).toEqual({
+      name: 'parent',
+      children: [{ name: 'child', parent: '[Circular]' }]
+    });
+  });
+
+  it('should show shared references in full', () => {
+    const shared = { id: 1 };
+
+    expect(toSerializable([shared, shared])).toEqual([{ id: 1 }, { id: 1 }]);
+  });
+
+  it('should drop undefined properties and turn undefined items into null like JSON', () => {
+    expect(toSerializable({ a: undefined, b: [undefined, 1] })).toEqual({ b: [null, 1] });
+  });
+});
+
+describe('serializeValue', () => {
+  it('should return strings as they are', () => {
+    expect(serializeValue('Hello')).toBe('Hello');
+  });
+
+  it('should describe a missing return value', () => {
+    expect(serializeValue(undefined)).toBe('No value was returned');
+  });
+
+  it('should not quote values that become strings', () => {
+    expect(serializeValue(10n)).toBe('10n');
+    expect(serializeValue(new Date(0))).toBe('1970-01-01T00:00:00.000Z');
+  });
+
+  it('should write objects as indented JSON by default', () => {
+    expect(serializeValue({ total: 2 })).toBe('{\n  "total": 2\n}');
+  });
+
+  it('should write objects as YAML', () => {
+    const value = {
+      users: [
+        { id: 1, name: 'Ada Lovelace', tags: ['admin'], meta: {} },
+        { id: 2, name: 'true', note: 'a: b' }
+      ],
+      total: 2,
+      empty: []
+    };
+
+    expect(serializeValue(value, 'yaml')).toBe(
+      [
+        'users:',
+        '  - id: 1',
+        '    name: Ada Lovelace',
+        '    tags:',
+        '      - admin',
+        '    meta: {}',
+        '  - id: 2',
+        '    name: "true"',
+        '    note: "a: b"',
+        'total: 2',
+        'empty: []'
+      ].join('\n')
+    );
+  });
+
+  it('should quote YAML strings that would be read as other types', () => {
+    expect(serializeValue(['123', 'null', ' padded', '- item', 'multi\nline', ''], 'yaml')).toBe(
+      ['- "123"', '- "null"', '- " padded"', '- "- item"', '- "multi\\nline"', '- ""'].join('\n')
+    );
+  });
+});
@@ -0,0 +1,164 @@
+export type OutputFormat = "json" | "yaml";
+
+// Strings that YAML would read as another type, so they must be quoted
+const YAML_RESERVED =
+  /^(true|false|yes|no|on|off|null|~|[-+]?(\d[\d_]*)?\.?\d+([eE][-+]?\d+)?|[-+]?\.inf|\.nan)$/i;
+const YAML_PLAIN = /^[^\s\-?:,[\]{}#&*!|>'"%@`][^:#\n]*$/;
+
+/**
+ * Converts a value returned by the code into JSON-compatible data, keeping the
+ * information JSON.stringify would lose or choke on: Map and Set entries,
+ * BigInts, dates, error names and messages, and circular references.
+ */
+export function toSerializable(value: unknown): unknown {
+  return convert(value, new Set());
+}
+
+/**
+ * Formats a value returned by the code as the text the model sees. Strings are
+ * returned as they are, everything else as JSON or compact YAML.
+ */
+export function serializeValue(value: unknown, format: OutputFormat = "json") {
+  if (value === undefined) {
+    return "No value was returned";
+  }
+  if (typeof value === "string") {
+    return value;
+  }
+
+  // Top-level values that become strings, like BigInts and dates, are shown unquoted
+  const data = toSerializable(value);
+  if (typeof data === "string") {
+    return data;
+  }
+  return format === "yaml"
+    ? yamlLines(data).join("\n")
+    : JSON.stringify(data, null, 2);
+}
+
+function convert(value: unknown, ancestors: Set<object>): unknown {
+  switch (typeof value) {
+    case "bigint":
+      return `${value}n`;
+    case "number":
+      return Number.isFinite(value) ? value : String(value);
+    case "function":
+      return `[Function: ${value.name || "anonymous"}]`;
+    case "symbol":
+      return value.toString();
+    case "undefined":
+      return undefined;
+  }
+  if (value === null || typeof value !== "object") {
+    return value;
+  }
+
+  // Only references back to an ancestor are cycles, shared values are shown in full
+  if (ancestors.has(value)) {
+    return "[Circular]";
+  }
+  ancestors.add(value);
+  try {
+    return convertObject(value, ancestors);
+  } finally {
+    ancestors.delete(value);
+  }
+}
+
+function convertObject(value: object, ancestors: Set<object>): unknown {
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? "Invalid Date" : value.toISOString();
+  }
+  if (value instanceof RegExp) {
+    return String(value);
+  }
+  if (value instanceof Error) {
+    const error: Record<string, unknown> = {
+      name: value.name,
+      message: value.message,
+    };
+    for (const [key, item] of Object.entries(value)) {
+      error[key] = convert(item, ancestors);
+    }
+    const { cause } = value as { cause?: unknown };
+    if (cause !== undefined) {
+      error.cause = convert(cause, ancestors);
+    }
+    return error;
+  }
+  if (value instanceof Map) {
+    // Maps with primitive keys read best as objects, others as [key, value] pairs
+    const entries = Array.from(value.entries());
+    return entries.every(([key]) => key === null || typeof key !== "object")
+      ? Object.fromEntries(
+          entries.map(([key, item]) => [
+            String(convert(key, ancestors)),
+            convert(item, ancestors),
+          ])
+        )
+      : entries.map(([key, item]) => [
+          convert(key, ancestors),
+          convert(item, ancestors),
+        ]);
+  }
+  if (value instanceof Set) {
+    return Array.from(value, (item) => convert(item, ancestors));
+  }
+  if (value instanceof ArrayBuffer) {
+    return `[ArrayBuffer: ${value.byteLength} bytes]`;
+  }
+  if (ArrayBuffer.isView(value)) {
+    return Array.from(value as unknown as ArrayLike<number>, (item) =>
+      convert(item, ancestors)
+    );
+  }
+  if (Array.isArray(value)) {
+    // Like JSON, holes and undefined items become null
+    return Array.from(value, (item) => convert(item, ancestors) ?? null);
+  }
+
+  const object: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    const converted = convert(item, ancestors);
+    if (converted !== undefined) {
+      object[key] = converted;
+    }
+  }
+  return object;
+}
+
+function yamlLines(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    if (!value.length) return ["[]"];
+    return value.flatMap((item) =>
+      yamlLines(item).map((line, index) => (index ? "  " : "- ") + line)
+    );
+  }
+
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value);
+    if (!entries.length) return ["{}"];
+    return entries.flatMap(([key, item]) => {
+      const lines = yamlLines(item);
+      const isNested =
+        item !== null &&
+        typeof item === "object" &&
+        lines[0] !== "[]" &&
+        lines[0] !== "{}";
+
+      return isNested
+        ? [`${yamlString(key)}:`, ...lines.map((line) => `  ${line}`)]
+        : [`${yamlString(key)}: ${lines[0]}`];
+    });
+  }
+
+  return [typeof value === "string" ? yamlString(value) : String(value)];
+}
+
+function yamlString(value: string) {
+  return YAML_PLAIN.test(value) &&
+    !YAML_RESERVED.test(value) &&
+    value.trim() === value
+    ? value
+    : JSON.stringify(value);
+}
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { createSession } from './session';
+import { SessionStateLimitError } from './errors';
+
+describe('createSession', () => {
+  it('should start with an empty state', () => {
+    const session = createSession();
+
+    expect(session.getState()).toEqual({});
+    expect(session.getSize()).toBe(0);
+  });
+
+  it('should restore an initial state', () => {
+    const session = createSession({ state: { ids: [1, 2], seenAt: new Date(0) } });
+
+    expect(session.getState()).toEqual({ ids: [1, 2], seenAt: new Date(0) });
+  });
+
+  it('should return copies of the state', () => {
+    const session = createSession({ state: { ids: [1] } });
+
+    (session.getState().ids as number[]).push(2);
+
+    expect(session.getState()).toEqual({ ids: [1] });
+  });
+
+  it('should reject states larger than the limit', () => {
+    const session = createSession({ maxStateSize: 100, state: { small: true } });
+
+    expect(() => session.setState({ large: 'x'.repeat(200) })).toThrow(SessionStateLimitError);
+    expect(session.getState()).toEqual({ small: true });
+  });
+
+  it('should clear the state on reset', () => {
+    const session = createSession({ state: { ids: [1] } });
+
+    session.reset();
+
+    expect(session.getState()).toEqual({});
+    expect(session.getSize()).toBe(0);
+  });
+
+  it('should serialize the state to JSON', () => {
+    const session = createSession({ state: { ids: [1] } });
+
+    expect(JSON.parse(JSON.stringify(session))).toEqual({ ids: [1] });
+  });
+});
@@ -0,0 +1,71 @@
+import { randomUUID } from "crypto";
+import { serialize } from "v8";
+import { SessionStateLimitError } from "./errors";
+
+export type SessionState = Record<string, unknown>;
+
+export type SessionOptions = {
+  /** Initial state, e.g. a state restored from an earlier getState() */
+  state?: SessionState;
+  /** Maximum size of the state in bytes, as serialized for the sandbox (default 5MB) */
+  maxStateSize?: number;
+};
+
+/**
+ * State that lives across executions. The code reads and writes it through
+ * the `state` global, and the state is saved when an execution succeeds.
+ */
+export type Session = {
+  id: string;
+  maxStateSize: number;
+  /** Returns a copy of the current state */
+  getState(): SessionState;
+  /** Replaces the state, throwing a SessionStateLimitError if it's too large */
+  setState(state: SessionState): void;
+  /** Size of the current state in bytes */
+  getSize(): number;
+  /** Clears the state */
+  reset(): void;
+  toJSON(): SessionState;
+};
+
+const DEFAULT_MAX_STATE_SIZE = 5 * 1024 * 1024;
+
+/**
+ * Creates a session to pass to createCodeTools or executeTools, typically one
+ * per conversation.
+ */
+export function createSession(options: SessionOptions = {}): Session {
+  const maxStateSize = options.maxStateSize ?? DEFAULT_MAX_STATE_SIZE;
+  let state: SessionState = {};
+  let size = 0;
+
+  const session: Session = {
+    id: randomUUID(),
+    maxStateSize,
+    getState: () => structuredClone(state),
+    setState(nextState) {
+      // The state crosses into the sandbox with the structured clone algorithm,
+      // so that is also how its size is measured
+      const nextSize = serialize(nextState).length;
+      if (nextSize > maxStateSize) {
+        throw new SessionStateLimitError(nextSize, maxStateSize);
+      }
+
+      state = structuredClone(nextState);
+      size = nextSize;
+    },
+    getSize: () => size,
+    reset() {
+      state = {};
+      size = 0;
+    },
+    toJSON: () => session.getState(),
+  };
+
+  if (options.state) {
+    session.setState(options.state);
+  }
+
+  return session;
+}
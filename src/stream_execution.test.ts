@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { streamExecuteTools } from './stream_execution';
+
+const tools = {
+  getUser: {
+    execute: async ({ id }: { id: number }) => {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      return { id, name: `User ${id}` };
+    },
+  },
+  fail: {
+    execute: async () => {
+      throw new Error('Service unavailable');
+    },
+  },
+};
+
+async function collect(iterable: AsyncIterable<any>) {
+  const values: any[] = [];
+  for await (const value of iterable) {
+    values.push(value);
+  }
+  return values;
+}
+
+describe('streamExecuteTools', () => {
+  it('should yield progress updates and end with the result', async () => {
+    const code = `
+      const first = await tools.getUser({ id: 1 });
+      console.log('Got', first.name);
+      const second = await tools.getUser({ id: 2 });
+      return [first.name, second.name];
+    `;
+
+    const values = await collect(streamExecuteTools(code, tools));
+    const progress = values.slice(0, -1);
+    const result = values[values.length - 1];
+
+    expect(progress.length).toBeGreaterThan(1);
+    expect(progress.every((update) => update.status === 'running')).toBe(true);
+    expect(progress[progress.length - 1].events).toEqual([
+      { type: 'tool-call-start', callId: expect.any(Number), tool: 'getUser', input: { id: 1 } },
+      {
+        type: 'tool-call-end',
+        callId: expect.any(Number),
+        tool: 'getUser',
+        output: { id: 1, name: 'User 1' },
+        error: undefined,
+        durationMs: expect.any(Number),
+      },
+      { type: 'console', level: 'log', message: 'Got User 1' },
+      { type: 'tool-call-start', callId: expect.any(Number), tool: 'getUser', input: { id: 2 } },
+      expect.objectContaining({ type: 'tool-call-end', output: { id: 2, name: 'User 2' } }),
+    ]);
+    expect(result.success).toBe(true);
+    expect(result.value).toEqual(['User 1', 'User 2']);
+  });
+
+  it('should use the execution id of the result', async () => {
+    const values = await collect(streamExecuteTools(`return await tools.getUser({ id: 1 });`, tools));
+    const ids = new Set(values.slice(0, -1).map((update) => update.executionId));
+
+    expect(ids.size).toBe(1);
+    expect([...ids][0]).toEqual(expect.any(String));
+  });
+
+  it('should report failed calls and the error result', async () => {
+    const values = await collect(streamExecuteTools(`await tools.fail();`, tools));
+    const result = values[values.length - 1];
+
+    expect(values[values.length - 2].events[1]).toMatchObject({
+      type: 'tool-call-end',
+      tool: 'fail',
+      error: { name: 'Error', message: 'Service unavailable' },
+    });
+    expect(result.success).toBe(false);
+    expect(result.output).toContain('Service unavailable');
+  });
+
+  it('should only yield the result when nothing happens', async () => {
+    const values = await collect(streamExecuteTools(`return 1 + 1;`, tools));
+
+    expect(values).toHaveLength(1);
+    expect(values[0].output).toBe('2');
+  });
+
+  it('should still call the hooks passed in', async () => {
+    const ends: string[] = [];
+
+    await collect(
+      streamExecuteTools(`return await tools.getUser({ id: 1 });`, tools, {
+        onToolCallEnd: ({ tool }) => {
+          ends.push(tool);
+        },
+      })
+    );
+
+    expect(ends).toEqual(['getUser']);
+  });
+});
@@ -0,0 +1,106 @@
+import { executeTools, ExecuteToolsOptions } from "./execute_tools";
+import { toSerializable } from "./serialize_value";
+import { ToolRegistry } from "./tool_registry";
+import { ConsoleEntry, ExecutionResult } from "./types";
+
+export type ProgressEvent =
+  | { type: "tool-call-start"; callId: number; tool: string; input: unknown }
+  | {
+      type: "tool-call-end";
+      callId: number;
+      tool: string;
+      /** The result of the call, so the user sees partial results as they arrive */
+      output?: unknown;
+      error?: { name: string; message: string };
+      durationMs: number;
+    }
+  | { type: "console"; level: ConsoleEntry["level"]; message: string };
+
+/**
+ * A preliminary result of a streamed execution. Every update has all the
+ * events so far, so a UI can replace the previous update with it.
+ */
+export type ExecutionProgress = {
+  status: "running";
+  executionId: string;
+  events: ProgressEvent[];
+};
+
+/**
+ * Runs the code like executeTools, and yields its progress after tool calls
+ * start or finish and console lines are written. The last value is the
+ * ExecutionResult, so it can be returned from an AI SDK tool whose execute
+ * streams preliminary results. Events that happen while the consumer is busy
+ * are combined into one update.
+ */
+export async function* streamExecuteTools(
+  code: string,
+  registry: ToolRegistry,
+  options: ExecuteToolsOptions = {}
+): AsyncGenerator<ExecutionProgress | ExecutionResult> {
+  const events: ProgressEvent[] = [];
+  let executionId = "";
+  let finished = false;
+  let wake: (() => void) | undefined;
+
+  const push = (event: ProgressEvent) => {
+    events.push(event);
+    wake?.();
+  };
+
+  const execution = executeTools(code, registry, {
+    ...options,
+    onExecutionStart: (event) => {
+      executionId = event.executionId;
+      return options.onExecutionStart?.(event);
+    },
+    onToolCallStart: (event) => {
+      push({
+        type: "tool-call-start",
+        callId: event.callId,
+        tool: event.tool,
+        input: toSerializable(event.input),
+      });
+      return options.onToolCallStart?.(event);
+    },
+    onToolCallEnd: (event) => {
+      push({
+        type: "tool-call-end",
+        callId: event.callId,
+        tool: event.tool,
+        output: event.error ? undefined : toSerializable(event.output),
+        error: event.error,
+        durationMs: event.durationMs,
+      });
+      return options.onToolCallEnd?.(event);
+    },
+    onConsole: (event) => {
+      push({ type: "console", level: event.level, message: event.message });
+      return options.onConsole?.(event);
+    },
+  });
+  execution.then(
+    () => {
+      finished = true;
+      wake?.();
+    },
+    () => {
+      finished = true;
+      wake?.();
+    }
+  );
+
+  let yielded = 0;
+  while (!finished || events.length > yielded) {
+    if (events.length > yielded) {
+      yielded = events.length;
+      yield { status: "running", executionId, events: [...events] };
+      continue;
+    }
+
+    await new Promise<void>((resolve) => (wake = resolve));
+    wake = undefined;
+  }
+
+  yield await execution;
+}
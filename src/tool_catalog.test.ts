@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { generateToolCatalog } from './tool_catalog';
+
+describe('generateToolCatalog', () => {
+  const tools = {
+    sendEmail: { description: 'Send an email\nThe body can be HTML.', execute: async () => ({}) },
+    'github.createIssue': { description: 'Create an issue', execute: async () => ({}) },
+    'get-weather': { execute: async () => ({}) },
+  };
+
+  it('should list every tool with the first line of its description', () => {
+    expect(generateToolCatalog(tools)).toBe(
+      [
+        '- tools.sendEmail: Send an email',
+        '- tools.github.createIssue: Create an issue',
+        '- tools["get-weather"]',
+      ].join('\n')
+    );
+  });
+
+  it('should shorten long descriptions', () => {
+    const catalog = generateToolCatalog({
+      search: { description: 'Search '.repeat(30), execute: async () => [] },
+    });
+
+    expect(catalog).toHaveLength(100 + '- tools.search: '.length);
+    expect(catalog).toMatch(/\.\.\.$/);
+  });
+
+  it('should return undefined when the catalog is larger than maxSize', () => {
+    expect(generateToolCatalog(tools, { maxSize: 50 })).toBeUndefined();
+  });
+});
@@ -0,0 +1,59 @@
+import { NAMESPACE_SEPARATOR } from "./tool_registry";
+import { Tool } from "./types";
+
+export type CatalogOptions = {
+  /** Longest catalog in characters, larger tool sets are left to discover_tools (default 4000) */
+  maxSize?: number;
+};
+
+export const DEFAULT_MAX_CATALOG_SIZE = 4000;
+
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+// Long descriptions are cut, the catalog only has to tell the tools apart
+const MAX_DESCRIPTION_LENGTH = 100;
+
+/**
+ * Lists every tool with a one-line summary, e.g.
+ * `- tools.sendEmail: Send an email`, so the model can call them without
+ * discovering them first. Returns undefined when the list would be longer
+ * than maxSize.
+ */
+export function generateToolCatalog(
+  tools: Record<string, Tool>,
+  options: CatalogOptions = {}
+) {
+  const maxSize = options.maxSize ?? DEFAULT_MAX_CATALOG_SIZE;
+
+  const catalog = Object.entries(tools)
+    .map(([name, tool]) => {
+      const summary = summarize(tool.description);
+      return summary
+        ? `- ${accessPath(name)}: ${summary}`
+        : `- ${accessPath(name)}`;
+    })
+    .join("\n");
+
+  return catalog.length <= maxSize ? catalog : undefined;
+}
+
+// The first line of the description, shortened to fit on one line
+function summarize(description = "") {
+  const line = description.trim().split("\n")[0].trim();
+  return line.length > MAX_DESCRIPTION_LENGTH
+    ? `${line.slice(0, MAX_DESCRIPTION_LENGTH - 3).trimEnd()}...`
+    : line;
+}
+
+// How the code refers to the tool, e.g. tools.github.createIssue or tools["get-weather"]
+function accessPath(name: string) {
+  return name
+    .split(NAMESPACE_SEPARATOR)
+    .reduce(
+      (path, segment) =>
+        IDENTIFIER.test(segment)
+          ? `${path}.${segment}`
+          : `${path}[${JSON.stringify(segment)}]`,
+      "tools"
+    );
+}
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { flattenTools, getNamespace } from './tool_registry';
+
+describe('flattenTools', () => {
+  const createIssue = { execute: async () => 'issue' };
+  const postMessage = { execute: async () => 'message' };
+
+  it('should name nested tools by their full path', () => {
+    const tools = flattenTools({
+      github: { createIssue, repos: { list: createIssue } },
+      slack: { postMessage },
+      ping: postMessage,
+    });
+
+    expect(Object.keys(tools)).toEqual(['github.createIssue', 'github.repos.list', 'slack.postMessage', 'ping']);
+    expect(tools['github.createIssue']).toBe(createIssue);
+  });
+
+  it('should return flat registries unchanged', () => {
+    const tools = { createIssue, postMessage };
+
+    expect(flattenTools(tools)).toEqual(tools);
+    expect(flattenTools(flattenTools({ github: { createIssue } }))).toEqual({ 'github.createIssue': createIssue });
+  });
+
+  it('should treat tools without execute as tools', () => {
+    const clientTool = { description: 'Ask the user', inputSchema: z.object({ question: z.string() }) };
+
+    expect(flattenTools({ ui: { askUser: clientTool } })).toEqual({ 'ui.askUser': clientTool });
+  });
+
+  it('should reject tools and namespaces named like the built-in $results', () => {
+    expect(() => flattenTools({ $results: createIssue })).toThrow('"$results" is reserved for stored results');
+    expect(() => flattenTools({ $results: { createIssue } })).toThrow('"$results" is reserved for stored results');
+    expect(flattenTools({ github: { $results: createIssue } })).toEqual({ 'github.$results': createIssue });
+  });
+
+  it('should reject a name that is both a tool and a namespace', () => {
+    expect(() => flattenTools({ github: createIssue, 'github.createIssue': createIssue })).toThrow(
+      '"github" is both a tool and a namespace of "github.createIssue"'
+    );
+  });
+});
+
+describe('getNamespace', () => {
+  it('should return the namespace of a full name', () => {
+    expect(getNamespace('atlassian.jira.createIssue')).toBe('atlassian.jira');
+    expect(getNamespace('ping')).toBe('');
+  });
+});
@@ -0,0 +1,81 @@
+import { Tool } from "./types";
+
+/**
+ * Tools by name, where a value without an execute function or input schema is
+ * a namespace of more tools, e.g. `{ github: { createIssue }, slack: { postMessage } }`.
+ * The code calls them as `tools.github.createIssue(...)`.
+ */
+export type ToolRegistry = { [name: string]: Tool | ToolRegistry };
+
+export const NAMESPACE_SEPARATOR = ".";
+
+// The member of the sandbox tools object that reads stored results, see ResultStore
+export const RESULTS_MEMBER = "$results";
+
+// Tools without an execute function still have a schema, which a namespace doesn't
+export function isTool(value: unknown): value is Tool {
+  if (typeof value !== "object" || value === null) return false;
+
+  const tool = value as Tool;
+  return (
+    typeof tool.execute === "function" ||
+    tool.inputSchema !== undefined ||
+    tool.parameters !== undefined
+  );
+}
+
+/**
+ * Turns a registry with namespaces into a flat record keyed by the full name
+ * of every tool, e.g. "github.createIssue". Flat registries come back as they
+ * are, so flattening twice is safe.
+ */
+export function flattenTools(
+  registry: ToolRegistry,
+  prefix = ""
+): Record<string, Tool> {
+  const tools: Record<string, Tool> = {};
+
+  for (const [name, value] of Object.entries(registry)) {
+    if (!value || typeof value !== "object") continue;
+
+    const fullName = prefix + name;
+    if (fullName === RESULTS_MEMBER) {
+      throw new Error(
+        `"${RESULTS_MEMBER}" is reserved for stored results and can't be the name of a tool or namespace`
+      );
+    }
+    if (isTool(value)) {
+      tools[fullName] = value;
+      continue;
+    }
+
+    for (const [nestedName, tool] of Object.entries(
+      flattenTools(value, fullName + NAMESPACE_SEPARATOR)
+    )) {
+      tools[nestedName] = tool;
+    }
+  }
+
+  // A name can't be a tool and a namespace, because tools.a.b would have to be both
+  for (const name of Object.keys(tools)) {
+    for (
+      let namespace = getNamespace(name);
+      namespace;
+      namespace = getNamespace(namespace)
+    ) {
+      if (Object.prototype.hasOwnProperty.call(tools, namespace)) {
+        throw new Error(
+          `"${namespace}" is both a tool and a namespace of "${name}"`
+        );
+      }
+    }
+  }
+
+  return tools;
+}
+
+// The namespace of a full tool name, e.g. "atlassian.jira" for "atlassian.jira.createIssue"
+export function getNamespace(name: string) {
+  const index = name.lastIndexOf(NAMESPACE_SEPARATOR);
+  return index === -1 ? "" : name.slice(0, index);
+}
@@ -0,0 +1,206 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import * as zm from 'zod/mini';
+import { z as z3 } from 'zod/v3';
+import { jsonSchema, zodSchema } from 'ai';
+import { getInputSchema, normalizeSchema } from './tool_schema';
+import { createToolIndex, discoverToolsInMemory } from './discover_tools';
+import { executeTools } from './execute_tools';
+import { generateToolSignature } from './generate_declarations';
+
+const weatherJSONSchema = {
+  type: 'object',
+  properties: {
+    city: { type: 'string', description: 'The city name' },
+    days: { type: 'integer', minimum: 1 },
+  },
+  required: ['city'],
+  additionalProperties: false,
+};
+
+describe('normalizeSchema', () => {
+  const variants = {
+    'Zod v4': z.object({ city: z.string().describe('The city name'), days: z.number().int().min(1).optional() }),
+    'Zod v4 mini': zm.object({ city: zm.string(), days: zm.optional(zm.number()) }),
+    'Zod v3': z3.object({ city: z3.string().describe('The city name'), days: z3.number().int().min(1).optional() }),
+    'AI SDK jsonSchema()': jsonSchema(weatherJSONSchema),
+    'AI SDK zodSchema()': zodSchema(z.object({ city: z.string(), days: z.number().optional() })),
+    'plain JSON Schema': weatherJSONSchema,
+  };
+
+  it.each(Object.entries(variants))('should convert %s to JSON Schema', (_, schema) => {
+    const { jsonSchema } = normalizeSchema(schema);
+
+    expect(jsonSchema.type).toBe('object');
+    expect(jsonSchema.properties.city).toMatchObject({ type: 'string' });
+    expect(jsonSchema.required).toEqual(['city']);
+  });
+
+  it.each(Object.entries(variants))('should validate input with %s', async (_, schema) => {
+    const { validate } = normalizeSchema(schema);
+
+    expect(await validate({ city: 'Paris' })).toEqual({ success: true, value: { city: 'Paris' } });
+
+    const invalid = await validate({ city: 42 });
+    expect(invalid.success).toBe(false);
+    expect(!invalid.success && invalid.issues[0].path).toEqual(['city']);
+  });
+
+  it('should reuse the normalized schema', () => {
+    const schema = z.object({ city: z.string() });
+
+    expect(normalizeSchema(schema)).toBe(normalizeSchema(schema));
+  });
+
+  it('should resolve schemas created lazily', () => {
+    const normalized = normalizeSchema(() => jsonSchema(weatherJSONSchema));
+
+    expect(normalized.jsonSchema.properties.city.type).toBe('string');
+  });
+
+  it('should accept anything without a schema', () => {
+    expect(normalizeSchema(undefined).validate(1)).toEqual({ success: true, value: 1 });
+  });
+
+  it('should pass AI SDK validation errors on as issues', async () => {
+    const schema = jsonSchema<{ city: string }>(weatherJSONSchema, {
+      validate: (value: any) =>
+        typeof value?.city === 'string'
+          ? { success: true, value }
+          : { success: false, error: new Error('city must be a string') },
+    });
+
+    expect(await normalizeSchema(schema).validate({})).toEqual({
+      success: false,
+      issues: [{ path: [], message: 'city must be a string' }],
+    });
+  });
+
+  describe('Zod v3 conversion', () => {
+    it('should convert common types and modifiers', () => {
+      enum Color { Red, Green }
+      const schema = z3.object({
+        name: z3.string().min(1).email(),
+        tags: z3.array(z3.string()).max(3),
+        kind: z3.enum(['a', 'b']),
+        color: z3.nativeEnum(Color),
+        exact: z3.literal('x'),
+        note: z3.string().nullable(),
+        limit: z3.number().default(10),
+        pair: z3.tuple([z3.string(), z3.number()]),
+        meta: z3.record(z3.boolean()),
+        either: z3.union([z3.string(), z3.number()]),
+        when: z3.date(),
+        trimmed: z3.string().transform((value) => value.trim()),
+      }).strict();
+
+      expect(normalizeSchema(schema).jsonSchema).toEqual({
+        type: 'object',
+        properties: {
+          name: { type: 'string', minLength: 1, format: 'email' },
+          tags: { type: 'array', items: { type: 'string' }, maxItems: 3 },
+          kind: { type: 'string', enum: ['a', 'b'] },
+          color: { enum: [0, 1] },
+          exact: { const: 'x' },
+          note: { anyOf: [{ type: 'string' }, { type: 'null' }] },
+          limit: { type: 'number', default: 10 },
+          pair: { type: 'array', prefixItems: [{ type: 'string' }, { type: 'number' }] },
+          meta: { type: 'object', additionalProperties: { type: 'boolean' } },
+          either: { anyOf: [{ type: 'string' }, { type: 'number' }] },
+          when: { type: 'string', format: 'date-time' },
+          trimmed: { type: 'string' },
+        },
+        required: ['name', 'tags', 'kind', 'color', 'exact', 'note', 'pair', 'meta', 'either', 'when', 'trimmed'],
+        additionalProperties: false,
+      });
+    });
+
+    it('should stop at recursive schemas', () => {
+      type Category = { name: string; children: Category[] };
+      const category: z3.ZodType<Category> = z3.lazy(() =>
+        z3.object({ name: z3.string(), children: z3.array(category) })
+      );
+
+      expect(() => normalizeSchema(category)).not.toThrow();
+    });
+  });
+});
+
+describe('getInputSchema', () => {
+  it('should read the AI SDK v4 parameters', () => {
+    const parameters = z.object({ city: z.string() });
+
+    expect(getInputSchema({ parameters })).toBe(parameters);
+  });
+});
+
+describe('tools with other schema formats', () => {
+  const tools = {
+    getWeather: {
+      description: 'Get the weather forecast',
+      parameters: z3.object({ city: z3.string().describe('The city name') }),
+      execute: async ({ city }: { city: string }) => `Sunny in ${city}`,
+    },
+    searchFlights: {
+      description: 'Search flights between two airports',
+      inputSchema: jsonSchema<{ from: string; to: string }>({
+        type: 'object',
+        properties: { from: { type: 'string' }, to: { type: 'string' } },
+        required: ['from', 'to'],
+      }),
+      execute: async ({ from, to }: { from: string; to: string }) => `${from}-${to}`,
+    },
+    bookHotel: {
+      description: 'Book a hotel room',
+      inputSchema: {
+        type: 'object',
+        properties: { nights: { type: 'integer', minimum: 1 } },
+        required: ['nights'],
+      },
+      execute: async ({ nights }: { nights: number }) => `${nights} nights`,
+    },
+  };
+
+  it('should discover them by their schema properties', async () => {
+    const result = await discoverToolsInMemory('city', createToolIndex(tools));
+
+    expect(result.tools.map((tool) => tool.name)).toEqual(['getWeather']);
+    expect((result.tools[0] as any).schema.properties.city.description).toBe('The city name');
+  });
+
+  it('should declare them', () => {
+    expect(generateToolSignature('bookHotel', tools.bookHotel)).toContain('bookHotel(input: {');
+  });
+
+  it('should call them with validated input', async () => {
+    const code = `
+      const weather = await tools.getWeather({ city: 'Paris' });
+      const flight = await tools.searchFlights({ from: 'CDG', to: 'JFK' });
+      const hotel = await tools.bookHotel({ nights: 2 });
+      return [weather, flight, hotel].join(', ');
+    `;
+
+    const result = await executeTools(code, tools);
+
+    expect(result.output).toBe('Sunny in Paris, CDG-JFK, 2 nights');
+  });
+
+  it('should reject invalid input', async () => {
+    const code = `
+      const nights = 0;
+      return await tools.bookHotel({ nights });
+    `;
+
+    const result = await executeTools(code, tools);
+
+    expect(result.error?.name).toBe('ToolInputError');
+    expect(result.output).toContain('- nights: Too small: expected number to be >=1');
+  });
+
+  it('should check literal inputs before running', async () => {
+    const result = await executeTools(`return await tools.getWeather({ city: 7 });`, tools);
+
+    expect(result.error?.kind).toBe('validation');
+    expect(result.output).toContain('Invalid input for tool "getWeather": city: ');
+  });
+});
@@ -0,0 +1,138 @@
+import { z } from "zod/v4";
+import { SchemaIssue, validateJSONSchema } from "./validate_json_schema";
+import { isZodV3Schema, zodV3ToJSONSchema } from "./zod_v3";
+
+export type JSONSchema = Record<string, any>;
+
+/**
+ * The schema of an AI SDK tool: a Zod v3 or v4 schema, an AI SDK Schema
+ * created with jsonSchema() or zodSchema(), or a plain JSON Schema object.
+ */
+export type ToolSchema =
+  | z.ZodType<any>
+  | { jsonSchema: JSONSchema; validate?: (value: unknown) => unknown }
+  | JSONSchema;
+
+export type SchemaValidationResult =
+  { success: true; value: unknown } | { success: false; issues: SchemaIssue[] };
+
+export type NormalizedSchema = {
+  jsonSchema: JSONSchema;
+  /** Parses a value, asynchronously for AI SDK schemas with async validators */
+  validate: (
+    value: unknown
+  ) => SchemaValidationResult | Promise<SchemaValidationResult>;
+};
+
+// Marks schemas created by the AI SDK's jsonSchema() and zodSchema()
+const AI_SDK_SCHEMA = Symbol.for("vercel.ai.schema");
+
+// Converting a schema is expensive, and the same tools are used by every execution
+const normalizedSchemas = new WeakMap<object, NormalizedSchema>();
+
+/**
+ * The input schema of a tool, which AI SDK v5 calls inputSchema and v4 calls
+ * parameters.
+ */
+export function getInputSchema(tool: {
+  inputSchema?: unknown;
+  parameters?: unknown;
+}) {
+  return tool.inputSchema ?? tool.parameters;
+}
+
+/**
+ * Turns any schema format a tool may use into JSON Schema, for discovery and
+ * declarations, and a validator, for tool inputs.
+ */
+export function normalizeSchema(schema: unknown): NormalizedSchema {
+  if (!schema || (typeof schema !== "object" && typeof schema !== "function")) {
+    return { jsonSchema: {}, validate: (value) => ({ success: true, value }) };
+  }
+
+  let normalized = normalizedSchemas.get(schema);
+  if (!normalized) {
+    normalized = convert(schema as any);
+    normalizedSchemas.set(schema, normalized);
+  }
+  return normalized;
+}
+
+function convert(schema: any): NormalizedSchema {
+  // Zod v4, including zod/mini
+  if ("_zod" in schema) {
+    return {
+      jsonSchema: z.toJSONSchema(schema, { unrepresentable: "any" }),
+      validate: (value) =>
+        fromZodResult(
+          typeof schema.safeParse === "function"
+            ? schema.safeParse(value)
+            : z.safeParse(schema, value)
+        ),
+    };
+  }
+
+  if (isZodV3Schema(schema)) {
+    return {
+      jsonSchema: zodV3ToJSONSchema(schema),
+      validate: (value) => fromZodResult(schema.safeParse(value)),
+    };
+  }
+
+  // AI SDK v5 also accepts functions that create the schema lazily
+  if (typeof schema === "function") {
+    return normalizeSchema(schema());
+  }
+
+  if (schema[AI_SDK_SCHEMA] === true) {
+    const jsonSchema = schema.jsonSchema;
+    return {
+      jsonSchema,
+      validate: schema.validate
+        ? (value) => {
+            const result = schema.validate(value);
+            return typeof result?.then === "function"
+              ? result.then(fromAISDKResult)
+              : fromAISDKResult(result);
+          }
+        : (value) => fromJSONSchema(jsonSchema, value),
+    };
+  }
+
+  return {
+    jsonSchema: schema,
+    validate: (value) => fromJSONSchema(schema, value),
+  };
+}
+
+function fromZodResult(result: any): SchemaValidationResult {
+  return result.success
+    ? { success: true, value: result.data }
+    : { success: false, issues: toIssues(result.error) };
+}
+
+function fromAISDKResult(result: any): SchemaValidationResult {
+  return result.success
+    ? { success: true, value: result.value }
+    : { success: false, issues: toIssues(result.error) };
+}
+
+function fromJSONSchema(
+  jsonSchema: JSONSchema,
+  value: unknown
+): SchemaValidationResult {
+  const issues = validateJSONSchema(jsonSchema, value);
+  return issues.length ? { success: false, issues } : { success: true, value };
+}
+
+// Zod errors have issues, AI SDK validation errors may wrap them as their cause
+function toIssues(error: any): SchemaIssue[] {
+  const issues = error?.issues ?? error?.cause?.issues;
+  if (Array.isArray(issues)) {
+    return issues.map((issue: any) => ({
+      path: issue.path ?? [],
+      message: issue.message,
+    }));
+  }
+  return [{ path: [], message: error?.message ?? String(error) }];
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { executeTools } from './execute_tools';
+import { createSpanHooks, Span, SpanTracer } from './tracing';
+
+describe('createSpanHooks', () => {
+  type RecordedSpan = {
+    name: string;
+    parent?: RecordedSpan;
+    attributes: Record<string, unknown>;
+    status?: { code: number; message?: string };
+    ended: boolean;
+  };
+
+  function createRecordingTracer() {
+    const spans: RecordedSpan[] = [];
+    const tracer: SpanTracer = {
+      startSpan(name, { attributes = {}, parent }) {
+        const recorded: RecordedSpan = {
+          name,
+          parent: parent && spans.find((span) => (span as any).handle === parent),
+          attributes: { ...attributes },
+          ended: false,
+        };
+        const handle: Span = {
+          setAttributes: (attributes) => Object.assign(recorded.attributes, attributes),
+          setStatus: (status) => (recorded.status = status),
+          end: () => (recorded.ended = true),
+        };
+        (recorded as any).handle = handle;
+        spans.push(recorded);
+        return handle;
+      },
+    };
+
+    return { tracer, spans };
+  }
+
+  const tools = {
+    getUser: { execute: async (id: number) => ({ id }) },
+    fail: {
+      execute: async () => {
+        throw new Error('Service unavailable');
+      },
+    },
+  };
+
+  it('should emit an execution span with a child span per tool call', async () => {
+    const { tracer, spans } = createRecordingTracer();
+
+    await executeTools(
+      `await tools.getUser(1); await tools.getUser(2);`,
+      tools,
+      createSpanHooks(tracer)
+    );
+
+    expect(spans.map((span) => span.name)).toEqual([
+      'execute_tools',
+      'execute_tools.call',
+      'execute_tools.call',
+    ]);
+    expect(spans[1].parent).toBe(spans[0]);
+    expect(spans[2].parent).toBe(spans[0]);
+    expect(spans[1].attributes).toMatchObject({
+      'execute_tools.tool': 'getUser',
+      'execute_tools.input': '1',
+    });
+    expect(spans[0].attributes).toMatchObject({
+      'execute_tools.success': true,
+      'execute_tools.tool_calls': 2,
+    });
+    expect(spans.every((span) => span.ended && span.status?.code === 1)).toBe(true);
+  });
+
+  it('should mark failed tool calls and executions as errors', async () => {
+    const { tracer, spans } = createRecordingTracer();
+
+    await executeTools(`await tools.fail();`, tools, createSpanHooks(tracer));
+
+    expect(spans[1].status).toEqual({ code: 2, message: 'Service unavailable' });
+    expect(spans[0].status).toEqual({ code: 2, message: 'Service unavailable' });
+    expect(spans[0].attributes['execute_tools.error_kind']).toBe('runtime');
+  });
+});
@@ -0,0 +1,107 @@
+import { ExecutionHooks } from "./types";
+
+// Matches the OpenTelemetry SpanStatusCode values
+const SPAN_STATUS_OK = 1;
+const SPAN_STATUS_ERROR = 2;
+
+export type SpanAttributes = Record<string, string | number | boolean>;
+
+/**
+ * The subset of an OpenTelemetry span used by the adapter.
+ */
+export type Span = {
+  setAttributes(attributes: SpanAttributes): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  end(): void;
+};
+
+/**
+ * Starts spans, with an optional parent span. With OpenTelemetry this wraps
+ * `tracer.startSpan(name, { attributes }, trace.setSpan(context.active(), parent))`.
+ */
+export type SpanTracer = {
+  startSpan(
+    name: string,
+    options: { attributes?: SpanAttributes; parent?: Span }
+  ): Span;
+};
+
+/**
+ * Creates execution hooks that emit an "execute_tools" span per execution,
+ * with a child "execute_tools.call" span for every tool call.
+ */
+export function createSpanHooks(tracer: SpanTracer): ExecutionHooks {
+  const executionSpans = new Map<string, Span>();
+  const callSpans = new Map<string, Span>();
+
+  return {
+    onExecutionStart({ executionId, code }) {
+      executionSpans.set(
+        executionId,
+        tracer.startSpan("execute_tools", {
+          attributes: {
+            "execute_tools.execution_id": executionId,
+            "execute_tools.code": code,
+          },
+        })
+      );
+    },
+    onToolCallStart({ executionId, callId, tool, input }) {
+      callSpans.set(
+        `${executionId}:${callId}`,
+        tracer.startSpan("execute_tools.call", {
+          parent: executionSpans.get(executionId),
+          attributes: {
+            "execute_tools.tool": tool,
+            "execute_tools.input": safeStringify(input),
+          },
+        })
+      );
+    },
+    onToolCallEnd({ executionId, callId, error, approval, durationMs }) {
+      const key = `${executionId}:${callId}`;
+      const span = callSpans.get(key);
+      if (!span) return;
+      callSpans.delete(key);
+
+      span.setAttributes({
+        "execute_tools.duration_ms": durationMs,
+        ...(approval ? { "execute_tools.approval": approval } : {}),
+      });
+      span.setStatus(
+        error
+          ? { code: SPAN_STATUS_ERROR, message: error.message }
+          : { code: SPAN_STATUS_OK }
+      );
+      span.end();
+    },
+    onExecutionEnd({ executionId, result }) {
+      const span = executionSpans.get(executionId);
+      if (!span) return;
+      executionSpans.delete(executionId);
+
+      span.setAttributes({
+        "execute_tools.success": result.success,
+        "execute_tools.tool_calls": result.calls.length,
+        "execute_tools.duration_ms": result.durationMs,
+        ...(result.error
+          ? { "execute_tools.error_kind": result.error.kind }
+          : {}),
+      });
+      span.setStatus(
+        result.error
+          ? { code: SPAN_STATUS_ERROR, message: result.error.message }
+          : { code: SPAN_STATUS_OK }
+      );
+      span.end();
+    },
+  };
+}
+
+function safeStringify(value: unknown) {
+  try {
+    return JSON.stringify(value) ?? "undefined";
+  } catch {
+    return String(value);
+  }
+}
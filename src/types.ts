@@ -0,0 +1,190 @@
+import { ToolSchema } from "./tool_schema";
+
+export type Tool = {
+  description?: string;
+  /** Zod v3 or v4 schema, AI SDK jsonSchema() or plain JSON Schema */
+  inputSchema?: ToolSchema;
+  /** The input schema of AI SDK v4 tools */
+  parameters?: ToolSchema;
+  outputSchema?: ToolSchema;
+  /** Require approval through onBeforeToolCall before calls made from code run */
+  needsApproval?: boolean | ((input: any) => boolean | Promise<boolean>);
+  /** Changes something outside the tool, so plan mode replaces it with a stub */
+  sideEffects?: boolean;
+  /**
+   * Tools without it, like tools the client runs, fail when the code calls
+   * them. A method, so AI SDK tools whose options have more specific types
+   * (e.g. ModelMessage[]) are accepted
+   */
+  execute?(params: any, options: ToolCallOptions): Promise<any> | any;
+};
+
+/**
+ * The second argument of execute, like the AI SDK passes it. Calls made from
+ * code get their own toolCallId, derived from the execute_tools call.
+ */
+export type ToolCallOptions = {
+  toolCallId: string;
+  /** The messages of the conversation that led to the execute_tools call */
+  messages: unknown[];
+  /** Aborted when the execution is cancelled */
+  abortSignal?: AbortSignal;
+};
+
+export type ToolCallLimits = {
+  /** Maximum number of tool calls in a single execution */
+  maxToolCalls?: number;
+  /** Maximum number of calls to any one tool, or per tool name */
+  maxCallsPerTool?: number | Record<string, number>;
+  /** Maximum number of tool calls in flight at the same time */
+  maxConcurrentCalls?: number;
+};
+
+export type PlanOptions = {
+  /**
+   * Results of stubbed tools by tool name, or functions that create them from
+   * the input. Other stubs return a placeholder matching the outputSchema
+   */
+  fixtures?: Record<string, unknown | ((input: any) => unknown)>;
+};
+
+export type ToolCallRequest = {
+  tool: string;
+  /** The input after parsing it with the tool's inputSchema */
+  input: unknown;
+  /** Whether the tool is flagged with needsApproval for this input */
+  needsApproval: boolean;
+};
+
+export type ToolCallDecision =
+  | { type: "approve" }
+  | { type: "deny"; reason?: string }
+  | { type: "rewrite"; input: unknown };
+
+/**
+ * Decides whether a tool call made from code may run. Returning nothing
+ * approves calls to tools that don't need approval, while tools flagged with
+ * needsApproval must be explicitly approved.
+ */
+export type ToolCallPolicy = (
+  request: ToolCallRequest
+) => ToolCallDecision | void | Promise<ToolCallDecision | void>;
+
+export type ToolCallTrace = {
+  tool: string;
+  input: unknown;
+  output?: unknown;
+  error?: { name: string; message: string };
+  /** Set when the approval policy was consulted for the call */
+  approval?: "approved" | "denied" | "rewritten";
+  /** Set when plan mode replaced the tool with a stub instead of running it */
+  planned?: boolean;
+  durationMs: number;
+};
+
+export type PlannedToolCall = {
+  tool: string;
+  /** The input after parsing it with the tool's inputSchema */
+  input: unknown;
+  /** What the stub returned to the code */
+  output: unknown;
+};
+
+export type ConsoleEntry = {
+  level: "log" | "info" | "debug" | "warn" | "error";
+  message: string;
+};
+
+export type ExecutionErrorKind =
+  | "validation"
+  | "runtime"
+  | "timeout"
+  | "memory"
+  | "crash"
+  | "limit"
+  | "cancelled";
+
+export type SourceLocation = {
+  /** 1-based line in the code as it was written */
+  line: number;
+  /** 1-based column */
+  column: number;
+};
+
+export type ExecutionError = {
+  kind: ExecutionErrorKind;
+  name: string;
+  message: string;
+  stack?: string;
+  /** Individual problems found by code validation */
+  details?: string[];
+  /** Where the error was thrown, or the first validation problem */
+  location?: SourceLocation;
+  /** The code around the location, with a caret under the column */
+  frame?: string;
+};
+
+export type ExecutionResult = {
+  success: boolean;
+  /** The value returned by the executed code */
+  value?: unknown;
+  /** The text given to the model */
+  output: string;
+  /** Every tool call made by the code, in the order they were started */
+  calls: ToolCallTrace[];
+  /** Output written with console.* by the code */
+  logs: ConsoleEntry[];
+  error?: ExecutionError;
+  /** Handle of the full value in the result store, when the output only shows a preview */
+  resultHandle?: string;
+  /** In plan mode, the calls of side-effecting tools the code would make, in order */
+  plan?: PlannedToolCall[];
+  durationMs: number;
+};
+
+export type ExecutionStartEvent = {
+  executionId: string;
+  code: string;
+  startedAt: number;
+};
+
+export type ValidationFailedEvent = {
+  executionId: string;
+  code: string;
+  errors: string[];
+};
+
+export type ToolCallStartEvent = {
+  executionId: string;
+  /** Identifies the call within the execution */
+  callId: number;
+  tool: string;
+  input: unknown;
+  startedAt: number;
+};
+
+export type ToolCallEndEvent = ToolCallStartEvent & ToolCallTrace;
+
+export type ConsoleEvent = ConsoleEntry & {
+  executionId: string;
+};
+
+export type ExecutionEndEvent = {
+  executionId: string;
+  code: string;
+  result: ExecutionResult;
+};
+
+/**
+ * Observes an execution. Hooks are called without being awaited, and errors
+ * thrown by them are ignored, so they can never change the outcome of a run.
+ */
+export type ExecutionHooks = {
+  onExecutionStart?: (event: ExecutionStartEvent) => void | Promise<void>;
+  onValidationFailed?: (event: ValidationFailedEvent) => void | Promise<void>;
+  onToolCallStart?: (event: ToolCallStartEvent) => void | Promise<void>;
+  onToolCallEnd?: (event: ToolCallEndEvent) => void | Promise<void>;
+  /** Called for every console line the code writes, within maxConsoleOutput */
+  onConsole?: (event: ConsoleEvent) => void | Promise<void>;
+  onExecutionEnd?: (event: ExecutionEndEvent) => void | Promise<void>;
+};
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { compileTypeScript } from './typescript';
+
+const tools = {
+  getUser: {
+    description: 'Get a user by id',
+    inputSchema: z.object({ id: z.number() }),
+    execute: async ({ id }: { id: number }) => ({ id, name: 'Ada' })
+  },
+  listOrders: {
+    inputSchema: z.object({ status: z.enum(['open', 'closed']), limit: z.number().optional() }),
+    outputSchema: z.array(z.object({ id: z.number(), total: z.number() })),
+    execute: async () => []
+  }
+};
+
+describe('compileTypeScript', () => {
+  it('should replace types with whitespace and keep positions', async () => {
+    const code = `interface User { id: number }
+const ids: number[] = [1];
+const user = (await tools.getUser({ id: ids[0]! })) as User;
+return user.id;`;
+
+    const result = await compileTypeScript(code, tools);
+
+    expect(result.errors).toEqual([]);
+    expect(result.code).toBe(`                             
+const ids           = [1];
+const user = (await tools.getUser({ id: ids[0]  }))        ;
+return user.id;`);
+    expect(result.code.length).toBe(code.length);
+  });
+
+  it('should remove generics, modifiers, overloads and satisfies', async () => {
+    const code = `function first<T>(items: T[]): T;
+function first<T>(items: T[]) { return items[0]; }
+class Counter implements Iterable<number> {
+  private count: number = 0;
+  readonly step?: number;
+  *[Symbol.iterator]() { yield this.count; }
+}
+const limits = { max: 1 } satisfies Record<string, number>;
+return first<number>([limits.max]);`;
+
+    const result = await compileTypeScript(code, tools);
+
+    expect(result.code).toBe(`                                 
+function first   (items     ) { return items[0]; }
+class Counter                             {
+          count         = 0;
+           step         ;
+  *[Symbol.iterator]() { yield this.count; }
+}
+const limits = { max: 1 }                                 ;
+return first        ([limits.max]);`);
+  });
+
+  it('should reject TypeScript syntax that has runtime behavior', async () => {
+    const result = await compileTypeScript(
+      `enum Status { Open }\nclass User { constructor(private id: number) {} }`,
+      tools
+    );
+
+    expect(result.errors).toEqual([
+      'Enums are not supported, use an object instead (line 1, column 1)',
+      'Parameter properties are not supported, assign the properties in the constructor instead (line 2, column 26)'
+    ]);
+  });
+
+  it('should report syntax errors without a type check', async () => {
+    const result = await compileTypeScript(`const id = 1;\nconst a: = id;`, tools);
+
+    expect(result.errors).toEqual(['TS1110: Type expected. (line 2, column 10)']);
+  });
+
+  it('should type-check tool inputs against the tool schemas', async () => {
+    const result = await compileTypeScript(
+      `const user = await tools.getUser({ id: '1' });\nawait tools.listOrders({ status: 'pending' });`,
+      tools,
+      { typeCheck: true }
+    );
+
+    expect(result.errors).toEqual([
+      "TS2322: Type 'string' is not assignable to type 'number'. (line 1, column 36)",
+      `TS2322: Type '"pending"' is not assignable to type '"open" | "closed"'. (line 2, column 26)`
+    ]);
+  }, 20_000);
+
+  it('should type results of tools with an outputSchema', async () => {
+    const result = await compileTypeScript(
+      `const orders = await tools.listOrders({ status: 'open' });\nreturn orders.map((order) => order.totl);`,
+      tools,
+      { typeCheck: true }
+    );
+
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]).toMatch(/^TS2551: Property 'totl' does not exist .* \(line 2, column 36\)$/);
+  }, 20_000);
+
+  it('should allow results of tools without an outputSchema to be used freely', async () => {
+    const result = await compileTypeScript(
+      `const user = await tools.getUser({ id: 1 });\nconsole.log(user.name.toUpperCase());\nreturn state.count;`,
+      tools,
+      { typeCheck: true, globals: ['state'] }
+    );
+
+    expect(result.errors).toEqual([]);
+  }, 20_000);
+});
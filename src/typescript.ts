@@ -0,0 +1,350 @@
+import type * as TypeScript from "typescript";
+import { generateToolMembers } from "./generate_declarations";
+import { Tool } from "./types";
+
+export type TypeScriptMode = boolean | "strict";
+
+export type CompileResult = {
+  /** The code as JavaScript, with every position unchanged */
+  code: string;
+  /** Problems found while compiling, in the same format as validation errors */
+  errors: string[];
+};
+
+// Same wrapper as validateCode, so await and return are allowed at the top level
+const WRAPPER_START = "(async () => {\n";
+const WRAPPER_END = "\n})();";
+
+const CODE_FILE = "/execute_tools.ts";
+const DECLARATIONS_FILE = "/execute_tools.d.ts";
+
+const COMPILER_OPTIONS = {
+  target: "es2022",
+  lib: ["es2022"],
+  // Unannotated callbacks and possibly undefined values are too common in
+  // generated code to reject, only wrong tool inputs and misused values are
+  strict: false,
+  noEmit: true,
+  types: [],
+};
+
+// Parsed default libraries are shared by every type check
+const libraryFiles = new Map<string, TypeScript.SourceFile>();
+
+/**
+ * Turns TypeScript code into JavaScript by replacing type annotations with
+ * whitespace, so line and column numbers stay the same. With typeCheck, the
+ * code is also checked against the tool signatures.
+ */
+export async function compileTypeScript(
+  code: string,
+  tools: Record<string, Tool>,
+  options: { typeCheck?: boolean; globals?: string[] } = {}
+): Promise<CompileResult> {
+  const ts = await loadTypeScript();
+  const wrappedCode = `${WRAPPER_START}${code}${WRAPPER_END}`;
+
+  if (options.typeCheck) {
+    const errors = typeCheck(ts, wrappedCode, tools, options.globals ?? []);
+    if (errors.length) {
+      return { code, errors };
+    }
+  }
+
+  const sourceFile = ts.createSourceFile(
+    CODE_FILE,
+    wrappedCode,
+    ts.ScriptTarget.Latest,
+    true
+  );
+  // Without a type check, syntax errors would otherwise only show up as types
+  // that aren't stripped, or not at all
+  const syntaxErrors = getSyntaxErrors(ts, sourceFile);
+  if (syntaxErrors.length) {
+    return { code, errors: syntaxErrors };
+  }
+
+  const { ranges, errors } = findTypeSyntax(ts, sourceFile);
+
+  let stripped = wrappedCode;
+  for (const [start, end] of ranges) {
+    stripped =
+      stripped.slice(0, start) +
+      stripped.slice(start, end).replace(/[^\r\n]/g, " ") +
+      stripped.slice(end);
+  }
+
+  return {
+    code: stripped.slice(WRAPPER_START.length, -WRAPPER_END.length),
+    errors: errors.map(({ node, message }) =>
+      formatError(sourceFile, node.getStart(), message)
+    ),
+  };
+}
+
+async function loadTypeScript(): Promise<typeof TypeScript> {
+  try {
+    return await import("typescript");
+  } catch {
+    throw new Error(
+      'TypeScript support requires the "typescript" package to be installed'
+    );
+  }
+}
+
+// Returns the ranges of syntax that only exists in TypeScript
+function findTypeSyntax(
+  ts: typeof TypeScript,
+  sourceFile: TypeScript.SourceFile
+) {
+  const ranges: [number, number][] = [];
+  const errors: { node: TypeScript.Node; message: string }[] = [];
+
+  const strip = (start: number, end: number) => ranges.push([start, end]);
+  const stripNode = (node: TypeScript.Node) => strip(node.getStart(), node.end);
+  // Annotations start at the colon right before the type, e.g. `: string`
+  const stripAnnotation = (type: TypeScript.Node | undefined) => {
+    if (type) strip(type.pos - 1, type.end);
+  };
+  // Type parameter and argument lists include their angle brackets
+  const stripTypeList = (
+    list: TypeScript.NodeArray<TypeScript.Node> | undefined
+  ) => {
+    if (list) strip(list.pos - 1, list.end + 1);
+  };
+
+  const hasModifier = (node: TypeScript.Node, kind: TypeScript.SyntaxKind) =>
+    ts.canHaveModifiers(node) &&
+    Boolean(ts.getModifiers(node)?.some((modifier) => modifier.kind === kind));
+
+  const TYPE_ONLY_MODIFIERS = new Set([
+    ts.SyntaxKind.PublicKeyword,
+    ts.SyntaxKind.PrivateKeyword,
+    ts.SyntaxKind.ProtectedKeyword,
+    ts.SyntaxKind.ReadonlyKeyword,
+    ts.SyntaxKind.OverrideKeyword,
+    ts.SyntaxKind.AbstractKeyword,
+  ]);
+
+  function visit(node: TypeScript.Node): void {
+    // Declarations without any JavaScript output
+    if (
+      ts.isInterfaceDeclaration(node) ||
+      ts.isTypeAliasDeclaration(node) ||
+      ts.isIndexSignatureDeclaration(node) ||
+      hasModifier(node, ts.SyntaxKind.DeclareKeyword) ||
+      (ts.isClassElement(node) &&
+        hasModifier(node, ts.SyntaxKind.AbstractKeyword)) ||
+      ((ts.isFunctionDeclaration(node) ||
+        ts.isMethodDeclaration(node) ||
+        ts.isConstructorDeclaration(node)) &&
+        !node.body)
+    ) {
+      stripNode(node);
+      return;
+    }
+
+    // Syntax with runtime behavior can't be removed, so it isn't supported
+    if (ts.isEnumDeclaration(node) || ts.isModuleDeclaration(node)) {
+      errors.push({
+        node,
+        message: `${ts.isEnumDeclaration(node) ? "Enums" : "Namespaces"} are not supported, use an object instead`,
+      });
+      return;
+    }
+    if (
+      ts.isParameter(node) &&
+      ts.isParameterPropertyDeclaration(node, node.parent)
+    ) {
+      errors.push({
+        node,
+        message:
+          "Parameter properties are not supported, assign the properties in the constructor instead",
+      });
+      return;
+    }
+
+    if (ts.canHaveModifiers(node)) {
+      for (const modifier of ts.getModifiers(node) ?? []) {
+        if (TYPE_ONLY_MODIFIERS.has(modifier.kind)) {
+          stripNode(modifier);
+        }
+      }
+    }
+
+    if (
+      ts.isHeritageClause(node) &&
+      node.token === ts.SyntaxKind.ImplementsKeyword
+    ) {
+      stripNode(node);
+      return;
+    }
+
+    if (ts.isAsExpression(node) || ts.isSatisfiesExpression(node)) {
+      strip(node.expression.end, node.end);
+      visit(node.expression);
+      return;
+    }
+    if (ts.isTypeAssertionExpression(node)) {
+      strip(node.getStart(), node.expression.pos);
+      visit(node.expression);
+      return;
+    }
+    if (ts.isNonNullExpression(node)) {
+      strip(node.end - 1, node.end);
+      visit(node.expression);
+      return;
+    }
+
+    if (
+      ts.isVariableDeclaration(node) ||
+      ts.isParameter(node) ||
+      ts.isPropertyDeclaration(node) ||
+      ts.isFunctionLike(node)
+    ) {
+      stripAnnotation(node.type);
+    }
+    if (ts.isVariableDeclaration(node) || ts.isPropertyDeclaration(node)) {
+      if (node.exclamationToken) stripNode(node.exclamationToken);
+    }
+    if (
+      (ts.isParameter(node) ||
+        ts.isPropertyDeclaration(node) ||
+        ts.isMethodDeclaration(node)) &&
+      node.questionToken
+    ) {
+      stripNode(node.questionToken);
+    }
+    if (ts.isFunctionLike(node) || ts.isClassLike(node)) {
+      stripTypeList(node.typeParameters);
+    }
+    if (
+      ts.isCallExpression(node) ||
+      ts.isNewExpression(node) ||
+      ts.isTaggedTemplateExpression(node) ||
+      ts.isExpressionWithTypeArguments(node)
+    ) {
+      stripTypeList(node.typeArguments);
+    }
+
+    ts.forEachChild(node, (child) => {
+      // Types have no JavaScript inside them
+      if (!ts.isTypeNode(child) || ts.isExpressionWithTypeArguments(child)) {
+        visit(child);
+      }
+    });
+  }
+
+  visit(sourceFile);
+
+  return { ranges: ranges.sort((a, b) => a[0] - b[0]), errors };
+}
+
+function typeCheck(
+  ts: typeof TypeScript,
+  wrappedCode: string,
+  tools: Record<string, Tool>,
+  globals: string[]
+) {
+  const files = new Map([
+    [CODE_FILE, wrappedCode],
+    [DECLARATIONS_FILE, generateSandboxDeclarations(tools, globals)],
+  ]);
+
+  const options = ts.convertCompilerOptionsFromJson(
+    COMPILER_OPTIONS,
+    "/"
+  ).options;
+  const host = ts.createCompilerHost(options);
+  const getSourceFile = host.getSourceFile;
+
+  host.getSourceFile = (fileName, languageVersion, ...rest) => {
+    const text = files.get(fileName);
+    if (text !== undefined) {
+      return ts.createSourceFile(fileName, text, languageVersion, true);
+    }
+
+    if (!libraryFiles.has(fileName)) {
+      const sourceFile = getSourceFile(fileName, languageVersion, ...rest);
+      if (!sourceFile) return undefined;
+      libraryFiles.set(fileName, sourceFile);
+    }
+    return libraryFiles.get(fileName);
+  };
+  host.fileExists = (fileName) =>
+    files.has(fileName) || ts.sys.fileExists(fileName);
+  host.readFile = (fileName) =>
+    files.get(fileName) ?? ts.sys.readFile(fileName);
+  host.writeFile = () => {};
+
+  const program = ts.createProgram(
+    [CODE_FILE, DECLARATIONS_FILE],
+    options,
+    host
+  );
+  const sourceFile = program.getSourceFile(CODE_FILE)!;
+
+  return [
+    ...program.getSyntacticDiagnostics(sourceFile),
+    ...program.getSemanticDiagnostics(sourceFile),
+  ].map((diagnostic) => formatDiagnostic(ts, sourceFile, diagnostic));
+}
+
+// Parsing doesn't need the libraries, so only the code itself is transpiled
+function getSyntaxErrors(
+  ts: typeof TypeScript,
+  sourceFile: TypeScript.SourceFile
+) {
+  const { diagnostics = [] } = ts.transpileModule(sourceFile.text, {
+    fileName: CODE_FILE,
+    reportDiagnostics: true,
+    compilerOptions: { target: ts.ScriptTarget.ES2022 },
+  });
+  return diagnostics.map((diagnostic) =>
+    formatDiagnostic(ts, sourceFile, diagnostic)
+  );
+}
+
+function formatDiagnostic(
+  ts: typeof TypeScript,
+  sourceFile: TypeScript.SourceFile,
+  diagnostic: TypeScript.Diagnostic
+) {
+  return formatError(
+    sourceFile,
+    diagnostic.start ?? 0,
+    `TS${diagnostic.code}: ${ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n")}`
+  );
+}
+
+// The globals of the sandbox, with results of untyped tools as any so they can be used freely
+function generateSandboxDeclarations(
+  tools: Record<string, Tool>,
+  globals: string[]
+) {
+  const members = generateToolMembers(tools, "  ", { untypedOutput: "any" });
+
+  return [
+    `declare const tools: {`,
+    ...members,
+    `  $results: { get(handle: string): Promise<any> };`,
+    `};`,
+    `declare const console: {`,
+    ...["log", "info", "debug", "warn", "error", "table"].map(
+      (level) => `  ${level}(...data: any[]): void;`
+    ),
+    `};`,
+    ...globals.map((name) => `declare let ${name}: any;`),
+  ].join("\n");
+}
+
+// Reports positions relative to the original code, without the wrapper line
+function formatError(
+  sourceFile: TypeScript.SourceFile,
+  position: number,
+  message: string
+) {
+  const { line, character } =
+    sourceFile.getLineAndCharacterOfPosition(position);
+  return `${message} (line ${line}, column ${character + 1})`;
+}
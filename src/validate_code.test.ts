@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import { validateCode } from './validate_code';
+
+describe('validateCode scope analysis', () => {
+  it.each(['Reflect', 'Proxy', 'fetch', 'Buffer', 'WebAssembly', 'queueMicrotask'])(
+    'should reject the unknown global %s',
+    (name) => {
+      const result = validateCode(`return ${name};`);
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toEqual([`Unknown global: ${name} (line 1, column 8)`]);
+    }
+  );
+
+  it('should report the position of every free identifier', () => {
+    const result = validateCode(`const a = 1;\n  fetch(a);\nreturn Reflect;`);
+
+    expect(result.errors).toEqual([
+      'Unknown global: fetch (line 2, column 3)',
+      'Unknown global: Reflect (line 3, column 8)',
+    ]);
+  });
+
+  it('should allow locals named like forbidden globals', () => {
+    const result = validateCode(`
+      const exports = { total: 1 };
+      const { module, process = 2 } = await tools.getConfig();
+      return [exports, module, process];
+    `);
+
+    expect(result).toEqual({ isValid: true, errors: [] });
+  });
+
+  it('should allow property names that match forbidden globals', () => {
+    const result = validateCode(`
+      const config = { require: true, global: false };
+      return config.require && config.global;
+    `);
+
+    expect(result).toEqual({ isValid: true, errors: [] });
+  });
+
+  it('should still reject shorthand properties that reference forbidden globals', () => {
+    const result = validateCode(`return { process };`);
+
+    expect(result.errors).toEqual(['Forbidden identifier: process (line 1, column 10)']);
+  });
+
+  it('should resolve parameters, destructuring and catch clauses', () => {
+    const result = validateCode(`
+      const [first, { nested: [second] }, ...rest] = [1, { nested: [2] }, 3];
+      const add = (a, b = a, ...others) => a + b + others.length;
+      function sum() {
+        return Array.from(arguments).reduce((total, n) => total + n, 0);
+      }
+      try {
+        throw new Error('x');
+      } catch ({ message }) {
+        return add(first, second) + sum(...rest) + message;
+      }
+    `);
+
+    expect(result).toEqual({ isValid: true, errors: [] });
+  });
+
+  it('should resolve hoisted declarations', () => {
+    const result = validateCode(`
+      const total = double(later);
+      if (true) {
+        var later = 2;
+      }
+      function double(n) {
+        return n * 2;
+      }
+      return total;
+    `);
+
+    expect(result).toEqual({ isValid: true, errors: [] });
+  });
+
+  it('should resolve classes and named function expressions', () => {
+    const result = validateCode(`
+      class Counter {
+        count = 0;
+        increment() {
+          return new Counter();
+        }
+      }
+      const factorial = function f(n) {
+        return n <= 1 ? 1 : n * f(n - 1);
+      };
+      return [new Counter(), factorial(3)];
+    `);
+
+    expect(result).toEqual({ isValid: true, errors: [] });
+  });
+
+  it('should not resolve block-scoped variables outside their block', () => {
+    const result = validateCode(`
+      for (let i = 0; i < 3; i++) {
+        const inner = i;
+      }
+      return inner + i;
+    `);
+
+    expect(result.errors).toEqual([
+      'Unknown global: inner (line 5, column 14)',
+      'Unknown global: i (line 5, column 22)',
+    ]);
+  });
+
+  it('should scope function declarations in blocks to their block, like strict mode', () => {
+    const result = validateCode(`{ function g() { return 1; } }\nreturn g();`);
+
+    expect(result.errors).toEqual(['Unknown global: g (line 2, column 8)']);
+  });
+
+  it('should reject dynamic import()', () => {
+    const result = validateCode(`const fs = await import('fs');`);
+
+    expect(result.errors).toEqual(['Dynamic import() is not allowed (line 1, column 18)']);
+  });
+});
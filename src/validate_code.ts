@@ -1,35 +1,55 @@
 import * as acorn from "acorn";
+import { findFreeVariables } from "./scope_analysis";
+import { GUARD_DEPTH_NAME, GUARD_NAME } from "./instrument_code";
 
 interface ValidationResult {
   isValid: boolean;
   errors: string[];
 }
 
-// Safe globals that are allowed
+export type ValidateCodeOptions = {
+  /** Globals allowed in addition to the built-in allowlist, e.g. "state" */
+  globals?: string[];
+};
+
+// Safe globals that are allowed. Any other free variable is rejected
 const ALLOWED_GLOBALS = new Set([
   // Standard JavaScript
   "Array",
   "Boolean",
   "Date",
   "Error",
+  "TypeError",
+  "RangeError",
+  "SyntaxError",
   "JSON",
   "Math",
   "Number",
   "Object",
   "String",
+  "Symbol",
+  "BigInt",
   "RegExp",
   "Map",
   "Set",
+  "WeakMap",
+  "WeakSet",
   "Promise",
+  "Intl",
   "parseInt",
   "parseFloat",
   "isNaN",
   "isFinite",
+  "encodeURIComponent",
+  "decodeURIComponent",
+  "encodeURI",
+  "decodeURI",
   "undefined",
   "NaN",
   "Infinity",
   // Our injected context
   "tools",
+  "console",
 ]);
 
 // Dangerous patterns to block
@@ -50,7 +70,57 @@ const FORBIDDEN_IDENTIFIERS = new Set([
   "setImmediate",
 ]);
 
-export function validateCode(code: string): ValidationResult {
+// Properties that lead to constructors (and with them to code generation) or
+// allow mutating prototypes
+const FORBIDDEN_PROPERTIES = new Set([
+  "constructor",
+  "__proto__",
+  "__defineGetter__",
+  "__defineSetter__",
+  "__lookupGetter__",
+  "__lookupSetter__",
+  "getPrototypeOf",
+  "setPrototypeOf",
+]);
+
+// The name of a property key, if it's known without running the code
+function getStaticPropertyName(key: any, computed: boolean) {
+  if (!computed) {
+    return key.type === "Identifier" ? key.name : undefined;
+  }
+  if (key.type === "Literal") {
+    return String(key.value);
+  }
+  if (key.type === "TemplateLiteral" && key.expressions.length === 0) {
+    return key.quasis[0].value.cooked;
+  }
+  return undefined;
+}
+
+// Where the body of the wrapping async arrow function starts and how far from the end it ends
+const WRAPPER_BODY_START = "(async () => ".length;
+const WRAPPER_BODY_END = ")()".length;
+
+// The call of the wrapping function, if the program is nothing else
+function getWrapperCall(ast: any) {
+  const [statement, ...rest] = ast.body;
+  if (rest.length > 0 || statement?.type !== "ExpressionStatement") return;
+
+  const call = statement.expression;
+  if (
+    call.type !== "CallExpression" ||
+    call.arguments.length > 0 ||
+    call.callee.type !== "ArrowFunctionExpression"
+  ) {
+    return;
+  }
+  return call;
+}
+
+export function validateCode(
+  code: string,
+  options: ValidateCodeOptions = {}
+): ValidationResult {
   const errors: string[] = [];
 
   try {
@@ -62,8 +132,15 @@ export function validateCode(code: string): ValidationResult {
     const ast = acorn.parse(wrappedCode, {
       ecmaVersion: "latest",
       sourceType: "script",
+      locations: true,
     });
 
+    // Report positions relative to the original code, without the wrapper line
+    const report = (node: any, message: string) => {
+      const { line, column } = node.loc.start;
+      errors.push(`${message} (line ${line - 1}, column ${column + 1})`);
+    };
+
     // Walk the AST to check for forbidden patterns
     function walk(node: any) {
       if (!node || typeof node !== "object") return;
@@ -75,91 +152,84 @@ export function validateCode(code: string): ValidationResult {
         node.type === "ExportDefaultDeclaration" ||
         node.type === "ExportAllDeclaration"
       ) {
-        errors.push(`Import/export statements are not allowed: ${node.type}`);
+        report(node, `Import/export statements are not allowed: ${node.type}`);
       }
 
-      // Check for forbidden identifiers
-      if (node.type === "Identifier" && FORBIDDEN_IDENTIFIERS.has(node.name)) {
-        errors.push(`Forbidden identifier: ${node.name}`);
+      // Dynamic import() is an expression, not an identifier
+      if (node.type === "ImportExpression") {
+        report(node, "Dynamic import() is not allowed");
       }
 
-      // Check for member expressions accessing forbidden globals
-      if (
-        node.type === "MemberExpression" &&
-        node.object.type === "Identifier"
-      ) {
-        if (FORBIDDEN_IDENTIFIERS.has(node.object.name)) {
-          errors.push(`Access to forbidden object: ${node.object.name}`);
+      // Check for access to properties that lead to constructors or prototypes,
+      // e.g. {}.constructor.constructor, (async () => {})["constructor"] or obj.__proto__
+      // Computed keys are checked when they are static strings; anything dynamic is
+      // contained at runtime by the sandbox realm
+      if (node.type === "MemberExpression") {
+        const name = getStaticPropertyName(node.property, node.computed);
+        if (name !== undefined && FORBIDDEN_PROPERTIES.has(name)) {
+          report(
+            node.property,
+            `Access to the "${name}" property is not allowed (potential sandbox escape)`
+          );
         }
       }
 
-      // Check for constructor property access chains (e.g., {}.constructor.constructor)
-      // This is a common way to get access to the Function constructor
-      if (
-        node.type === "MemberExpression" &&
-        node.property.type === "Identifier" &&
-        node.property.name === "constructor"
-      ) {
-        // Check if this is a nested constructor access (constructor.constructor)
-        if (
-          node.object.type === "MemberExpression" &&
-          node.object.property.type === "Identifier" &&
-          node.object.property.name === "constructor"
-        ) {
-          errors.push(
-            "Nested constructor property access is not allowed (potential Function constructor escape)"
+      // The same properties can be reached with destructuring or set with object literals
+      if (node.type === "Property") {
+        const name = getStaticPropertyName(node.key, node.computed);
+        if (name !== undefined && FORBIDDEN_PROPERTIES.has(name)) {
+          report(
+            node.key,
+            `Access to the "${name}" property is not allowed (potential sandbox escape)`
           );
         }
       }
 
-      // Block while and do-while loops to prevent infinite loops that block the thread
-      // For loops are allowed as they have more structure and termination conditions
-      if (node.type === "WhileStatement") {
-        errors.push(
-          "while loops are not allowed (potential infinite loop). Use for loops or array methods instead."
-        );
-      }
-
-      if (node.type === "DoWhileStatement") {
-        errors.push(
-          "do-while loops are not allowed (potential infinite loop). Use for loops or array methods instead."
-        );
-      }
-
-      // Check for identifiers that aren't in our allowed list or defined locally
-      if (node.type === "Identifier" && !ALLOWED_GLOBALS.has(node.name)) {
-        // Only flag it if it's being used as a free variable (not a property, parameter, or declaration)
-        const parent = (node as any).parent;
-        if (
-          parent &&
-          parent.type !== "MemberExpression" &&
-          parent.type !== "Property"
-        ) {
-          // This is a simplification - ideally we'd do proper scope analysis
-          // For now we'll be lenient and only catch the obvious cases
-        }
+      // The guard is injected after validation and must not be shadowed or called
+      if (
+        node.type === "Identifier" &&
+        (node.name === GUARD_NAME || node.name === GUARD_DEPTH_NAME)
+      ) {
+        report(node, `Reserved identifier: ${node.name}`);
       }
 
       // Recursively walk child nodes
       for (const key in node) {
-        if (key === "parent") continue; // Skip parent references
+        if (key === "loc") continue; // Skip source locations
         const child = node[key];
         if (Array.isArray(child)) {
-          child.forEach((c) => {
-            if (c && typeof c === "object") {
-              (c as any).parent = node;
-              walk(c);
-            }
-          });
+          child.forEach((c) => walk(c));
         } else if (child && typeof child === "object") {
-          (child as any).parent = node;
           walk(child);
         }
       }
     }
 
+    // Code like `})(); ...; (async () => {` would close the wrapper and run outside of it
+    const wrapper = getWrapperCall(ast);
+    if (
+      !wrapper ||
+      wrapper.callee.body.start !== WRAPPER_BODY_START ||
+      wrapper.callee.body.end !== wrappedCode.length - WRAPPER_BODY_END
+    ) {
+      errors.push("The code must not close the function it runs in");
+      return { isValid: false, errors };
+    }
+
     walk(ast);
 
+    // Every variable the code doesn't declare itself must be an allowed global
+    for (const node of findFreeVariables(ast)) {
+      if (FORBIDDEN_IDENTIFIERS.has(node.name)) {
+        report(node, `Forbidden identifier: ${node.name}`);
+      } else if (
+        !ALLOWED_GLOBALS.has(node.name) &&
+        !options.globals?.includes(node.name)
+      ) {
+        report(node, `Unknown global: ${node.name}`);
+      }
+    }
+
     return {
       isValid: errors.length === 0,
       errors,
@@ -167,7 +237,25 @@ export function validateCode(code: string): ValidationResult {
   } catch (error: any) {
     return {
       isValid: false,
-      errors: [`Failed to parse code: ${error.message}`],
+      errors: [`Failed to parse code: ${describeParseError(error, code)}`],
     };
   }
 }
+
+// Acorn ends its messages with the position in the wrapped code, e.g.
+// "Unexpected token (2:8)", which becomes a position in the code like the
+// other errors. Errors at the closing line of the wrapper are at the end of the code
+function describeParseError(error: any, code: string) {
+  if (!error.loc) return error.message;
+
+  const lines = code.split("\n");
+  let line = error.loc.line - 1;
+  let column = error.loc.column + 1;
+  if (line > lines.length) {
+    line = lines.length;
+    column = lines[lines.length - 1].length + 1;
+  }
+
+  const message = String(error.message).replace(/ \(\d+:\d+\)$/, "");
+  return `${message} (line ${line}, column ${column})`;
+}
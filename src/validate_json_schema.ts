@@ -0,0 +1,297 @@
+export type SchemaIssue = {
+  path: (string | number)[];
+  message: string;
+};
+
+/**
+ * Checks a value against a JSON Schema, for tools that have no validator of
+ * their own. Covers the structural keywords (types, properties, items, enums,
+ * unions and bounds), but not formats or conditionals.
+ */
+export function validateJSONSchema(schema: any, value: unknown): SchemaIssue[] {
+  return validate(schema, value, [], schema);
+}
+
+function validate(
+  schema: any,
+  value: unknown,
+  path: (string | number)[],
+  root: any
+): SchemaIssue[] {
+  if (schema === false) {
+    return [{ path, message: "Invalid input: no value is allowed here" }];
+  }
+  if (!schema || typeof schema !== "object") {
+    return [];
+  }
+
+  if (schema.$ref) {
+    const definition = resolveRef(schema.$ref, root);
+    if (definition && definition !== schema) {
+      return validate(definition, value, path, root);
+    }
+  }
+
+  if (schema.const !== undefined && !isEqual(schema.const, value)) {
+    return [
+      {
+        path,
+        message: `Invalid input: expected ${JSON.stringify(schema.const)}`,
+      },
+    ];
+  }
+  if (
+    Array.isArray(schema.enum) &&
+    !schema.enum.some((item: unknown) => isEqual(item, value))
+  ) {
+    return [
+      {
+        path,
+        message: `Invalid option: expected one of ${schema.enum
+          .map((item: unknown) => JSON.stringify(item))
+          .join("|")}`,
+      },
+    ];
+  }
+
+  const members = schema.anyOf || schema.oneOf;
+  if (Array.isArray(members)) {
+    const results = members.map((member: any) =>
+      validate(member, value, path, root)
+    );
+    if (!results.some((issues: SchemaIssue[]) => !issues.length)) {
+      // A single member reads better than a generic union error
+      return results.length === 1
+        ? results[0]
+        : [{ path, message: "Invalid input: does not match any option" }];
+    }
+  }
+  if (Array.isArray(schema.allOf)) {
+    const issues = schema.allOf.flatMap((member: any) =>
+      validate(member, value, path, root)
+    );
+    if (issues.length) return issues;
+  }
+
+  if (schema.type !== undefined) {
+    const types: string[] = Array.isArray(schema.type)
+      ? schema.type
+      : [schema.type];
+    if (!types.some((type) => hasType(value, type))) {
+      return [
+        {
+          path,
+          message: `Invalid input: expected ${types.join(" | ")}, received ${typeName(value)}`,
+        },
+      ];
+    }
+  }
+
+  if (typeof value === "string") return validateString(schema, value, path);
+  if (typeof value === "number") return validateNumber(schema, value, path);
+  if (Array.isArray(value)) return validateArray(schema, value, path, root);
+  if (value && typeof value === "object") {
+    return validateObject(schema, value as Record<string, unknown>, path, root);
+  }
+  return [];
+}
+
+function validateString(
+  schema: any,
+  value: string,
+  path: (string | number)[]
+): SchemaIssue[] {
+  if (schema.minLength !== undefined && value.length < schema.minLength) {
+    return [
+      {
+        path,
+        message: `Too small: expected string to have >=${schema.minLength} characters`,
+      },
+    ];
+  }
+  if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+    return [
+      {
+        path,
+        message: `Too big: expected string to have <=${schema.maxLength} characters`,
+      },
+    ];
+  }
+  if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+    return [
+      {
+        path,
+        message: `Invalid string: must match pattern ${schema.pattern}`,
+      },
+    ];
+  }
+  return [];
+}
+
+function validateNumber(
+  schema: any,
+  value: number,
+  path: (string | number)[]
+): SchemaIssue[] {
+  const tooSmall =
+    (schema.minimum !== undefined && value < schema.minimum) ||
+    (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum);
+  const tooBig =
+    (schema.maximum !== undefined && value > schema.maximum) ||
+    (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum);
+
+  if (tooSmall) {
+    return [
+      {
+        path,
+        message: `Too small: expected number to be ${
+          schema.minimum !== undefined
+            ? `>=${schema.minimum}`
+            : `>${schema.exclusiveMinimum}`
+        }`,
+      },
+    ];
+  }
+  if (tooBig) {
+    return [
+      {
+        path,
+        message: `Too big: expected number to be ${
+          schema.maximum !== undefined
+            ? `<=${schema.maximum}`
+            : `<${schema.exclusiveMaximum}`
+        }`,
+      },
+    ];
+  }
+  return [];
+}
+
+function validateArray(
+  schema: any,
+  value: unknown[],
+  path: (string | number)[],
+  root: any
+): SchemaIssue[] {
+  if (schema.minItems !== undefined && value.length < schema.minItems) {
+    return [
+      {
+        path,
+        message: `Too small: expected array to have >=${schema.minItems} items`,
+      },
+    ];
+  }
+  if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+    return [
+      {
+        path,
+        message: `Too big: expected array to have <=${schema.maxItems} items`,
+      },
+    ];
+  }
+
+  const prefixItems: any[] = Array.isArray(schema.prefixItems)
+    ? schema.prefixItems
+    : Array.isArray(schema.items)
+      ? schema.items
+      : [];
+  const items = Array.isArray(schema.items)
+    ? schema.additionalItems
+    : schema.items;
+
+  return value.flatMap((item, index) =>
+    validate(
+      index < prefixItems.length ? prefixItems[index] : items,
+      item,
+      [...path, index],
+      root
+    )
+  );
+}
+
+function validateObject(
+  schema: any,
+  value: Record<string, unknown>,
+  path: (string | number)[],
+  root: any
+): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  const properties = schema.properties ?? {};
+
+  for (const key of schema.required ?? []) {
+    if (value[key] === undefined) {
+      const expected = properties[key]?.type;
+      issues.push({
+        path: [...path, key],
+        message: expected
+          ? `Invalid input: expected ${[expected].flat().join(" | ")}, received undefined`
+          : "Invalid input: required property is missing",
+      });
+    }
+  }
+
+  const unknownKeys: string[] = [];
+  for (const [key, item] of Object.entries(value)) {
+    if (item === undefined) continue;
+
+    if (Object.prototype.hasOwnProperty.call(properties, key)) {
+      issues.push(...validate(properties[key], item, [...path, key], root));
+    } else if (schema.additionalProperties === false) {
+      unknownKeys.push(key);
+    } else if (typeof schema.additionalProperties === "object") {
+      issues.push(
+        ...validate(schema.additionalProperties, item, [...path, key], root)
+      );
+    }
+  }
+
+  if (unknownKeys.length) {
+    issues.push({
+      path,
+      message: `Unrecognized key${unknownKeys.length > 1 ? "s" : ""}: ${unknownKeys
+        .map((key) => `"${key}"`)
+        .join(", ")}`,
+    });
+  }
+  return issues;
+}
+
+function hasType(value: unknown, type: string) {
+  switch (type) {
+    case "integer":
+      return Number.isInteger(value);
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return (
+        value !== null && typeof value === "object" && !Array.isArray(value)
+      );
+    case "null":
+      return value === null;
+    default:
+      return typeof value === type;
+  }
+}
+
+function typeName(value: unknown) {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function isEqual(a: unknown, b: unknown) {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+// Resolves a reference within the same schema, e.g. "#/$defs/User"
+export function resolveRef(ref: string, root: any) {
+  if (ref === "#") return root;
+  if (!ref.startsWith("#/")) return undefined;
+
+  return ref
+    .slice(2)
+    .split("/")
+    .reduce((node, segment) => node?.[segment], root);
+}
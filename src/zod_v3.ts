@@ -0,0 +1,184 @@
+// Zod v3 has no toJSONSchema, so its schemas are converted by walking their
+// definitions. Only what tool inputs and outputs commonly use is covered,
+// everything else becomes an unconstrained schema.
+
+// Recursive schemas are cut off at this depth
+const MAX_DEPTH = 10;
+
+// Zod v3 schemas have a _def with a typeName, and no _zod like v4 schemas
+export function isZodV3Schema(schema: any): boolean {
+  return Boolean(
+    schema &&
+    typeof schema === "object" &&
+    !("_zod" in schema) &&
+    typeof schema._def?.typeName === "string" &&
+    typeof schema.safeParse === "function"
+  );
+}
+
+/**
+ * Converts a Zod v3 schema into JSON Schema in the format Zod v4's
+ * toJSONSchema produces, e.g. tuples as prefixItems.
+ */
+export function zodV3ToJSONSchema(schema: any): Record<string, any> {
+  return convert(schema, 0);
+}
+
+function convert(schema: any, depth: number): Record<string, any> {
+  if (!schema?._def || depth > MAX_DEPTH) {
+    return {};
+  }
+
+  const json = convertDefinition(schema._def, depth);
+  if (schema._def.description && !json.description) {
+    json.description = schema._def.description;
+  }
+  return json;
+}
+
+function convertDefinition(def: any, depth: number): Record<string, any> {
+  const inner = (schema: any) => convert(schema, depth + 1);
+
+  switch (def.typeName) {
+    case "ZodString":
+      return stringSchema(def.checks ?? []);
+    case "ZodNumber":
+      return numberSchema(def.checks ?? []);
+    case "ZodBigInt":
+      return { type: "integer", format: "int64" };
+    case "ZodBoolean":
+      return { type: "boolean" };
+    case "ZodNull":
+      return { type: "null" };
+    case "ZodDate":
+      return { type: "string", format: "date-time" };
+    case "ZodLiteral":
+      return def.value === undefined ? {} : { const: def.value };
+    case "ZodEnum":
+      return { type: "string", enum: [...def.values] };
+    case "ZodNativeEnum": {
+      // Numeric enums also map their names back, which aren't values
+      const values = Object.entries(def.values)
+        .filter(([key]) => typeof def.values[def.values[key]] !== "number")
+        .map(([, value]) => value);
+      return { enum: Array.from(new Set(values)) };
+    }
+    case "ZodArray": {
+      const json: Record<string, any> = {
+        type: "array",
+        items: inner(def.type),
+      };
+      const minItems = def.exactLength?.value ?? def.minLength?.value;
+      const maxItems = def.exactLength?.value ?? def.maxLength?.value;
+      if (minItems !== undefined) json.minItems = minItems;
+      if (maxItems !== undefined) json.maxItems = maxItems;
+      return json;
+    }
+    case "ZodSet":
+      return { type: "array", uniqueItems: true, items: inner(def.valueType) };
+    case "ZodTuple": {
+      const json: Record<string, any> = {
+        type: "array",
+        prefixItems: def.items.map(inner),
+      };
+      if (def.rest) json.items = inner(def.rest);
+      return json;
+    }
+    case "ZodObject":
+      return objectSchema(def, inner);
+    case "ZodRecord":
+      return { type: "object", additionalProperties: inner(def.valueType) };
+    case "ZodUnion":
+    case "ZodDiscriminatedUnion":
+      return { anyOf: Array.from(def.options.values(), inner) };
+    case "ZodIntersection":
+      return { allOf: [inner(def.left), inner(def.right)] };
+    case "ZodNullable":
+      return { anyOf: [inner(def.innerType), { type: "null" }] };
+    case "ZodDefault":
+      return { ...inner(def.innerType), default: def.defaultValue() };
+    case "ZodOptional":
+    case "ZodReadonly":
+    case "ZodCatch":
+      return inner(def.innerType);
+    case "ZodEffects":
+      return inner(def.schema);
+    case "ZodBranded":
+    case "ZodPromise":
+      return inner(def.type);
+    case "ZodPipeline":
+      return inner(def.in);
+    case "ZodLazy":
+      return inner(def.getter());
+    default:
+      return {};
+  }
+}
+
+function stringSchema(checks: any[]) {
+  const json: Record<string, any> = { type: "string" };
+  for (const check of checks) {
+    switch (check.kind) {
+      case "min":
+        json.minLength = check.value;
+        break;
+      case "max":
+        json.maxLength = check.value;
+        break;
+      case "length":
+        json.minLength = json.maxLength = check.value;
+        break;
+      case "regex":
+        json.pattern = check.regex.source;
+        break;
+      case "email":
+      case "uuid":
+      case "date":
+      case "time":
+        json.format = check.kind;
+        break;
+      case "url":
+        json.format = "uri";
+        break;
+      case "datetime":
+        json.format = "date-time";
+        break;
+    }
+  }
+  return json;
+}
+
+function numberSchema(checks: any[]) {
+  const json: Record<string, any> = { type: "number" };
+  for (const check of checks) {
+    if (check.kind === "int") {
+      json.type = "integer";
+    } else if (check.kind === "min") {
+      json[check.inclusive ? "minimum" : "exclusiveMinimum"] = check.value;
+    } else if (check.kind === "max") {
+      json[check.inclusive ? "maximum" : "exclusiveMaximum"] = check.value;
+    }
+  }
+  return json;
+}
+
+function objectSchema(def: any, inner: (schema: any) => Record<string, any>) {
+  const shape = typeof def.shape === "function" ? def.shape() : def.shape;
+  const properties: Record<string, any> = {};
+  const required: string[] = [];
+
+  for (const [key, value] of Object.entries<any>(shape)) {
+    properties[key] = inner(value);
+    if (!value.isOptional()) required.push(key);
+  }
+
+  const json: Record<string, any> = { type: "object", properties };
+  if (required.length) json.required = required;
+
+  if (def.catchall && def.catchall._def.typeName !== "ZodNever") {
+    json.additionalProperties = inner(def.catchall);
+  } else if (def.unknownKeys === "strict") {
+    json.additionalProperties = false;
+  }
+  return json;
+}